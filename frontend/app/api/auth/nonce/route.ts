@@ -0,0 +1,14 @@
+/**
+ * API Route: Sign-In Nonce
+ * GET - Single-use nonce for the next Sign-In With Ethereum message
+ */
+
+import { NextResponse } from 'next/server';
+import { createNonce } from '@/lib/services/auth';
+
+export async function GET() {
+  return NextResponse.json(
+    { success: true, nonce: createNonce() },
+    { headers: { 'Cache-Control': 'no-store' } }
+  );
+}
@@ -0,0 +1,25 @@
+/**
+ * API Route: Session
+ * GET - The signed-in wallet, if any
+ * DELETE - Sign out (clears the session cookie)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession, SESSION_COOKIE } from '@/lib/services/auth';
+
+export async function GET(request: NextRequest) {
+  const session = getSession(request.headers);
+
+  return NextResponse.json(
+    session
+      ? { success: true, authenticated: true, address: session.address, chainId: session.chainId, expiresAt: session.expiresAt }
+      : { success: true, authenticated: false },
+    { headers: { 'Cache-Control': 'no-store' } }
+  );
+}
+
+export async function DELETE() {
+  const response = NextResponse.json({ success: true, authenticated: false });
+  response.cookies.delete(SESSION_COOKIE);
+  return response;
+}
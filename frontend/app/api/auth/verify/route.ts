@@ -0,0 +1,44 @@
+/**
+ * API Route: Sign-In Verification
+ * POST { message, signature } - Checks a signed EIP-4361 message (domain, nonce,
+ * expiry, signer) and sets the HTTP-only session cookie for its address.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { encodeSession, SESSION_COOKIE, SESSION_TTL_MS, verifySignIn } from '@/lib/services/auth';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { message, signature } = body;
+
+    if (typeof message !== 'string' || typeof signature !== 'string') {
+      return NextResponse.json({ success: false, error: 'message and signature are required' }, { status: 400 });
+    }
+
+    const { session, error, status } = verifySignIn(message, signature, request.headers.get('host'));
+    if (!session) {
+      console.warn('[Auth] Sign-in rejected:', error);
+      return NextResponse.json({ success: false, error }, { status });
+    }
+
+    console.log(`[Auth] Signed in: ${session.address}`);
+
+    const response = NextResponse.json({ success: true, address: session.address, expiresAt: session.expiresAt });
+    response.cookies.set(SESSION_COOKIE, encodeSession(session), {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      path: '/',
+      maxAge: SESSION_TTL_MS / 1000,
+    });
+    return response;
+
+  } catch (error) {
+    console.error('[Auth] Verify error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to verify sign-in', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
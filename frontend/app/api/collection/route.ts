@@ -0,0 +1,46 @@
+/**
+ * API Route: Collection
+ * GET ?cursor=&limit= - Minted tokens with prompt, mint time and metadata, from the
+ * contract event index. Pass nextCursor back (with the same filters) for the next page.
+ * Filters: ?q=&style=&creator=&from=&to=&trait=type:value&sort= (see collection/query.ts)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getIndexer } from '@/lib/services/indexer';
+import { parseCollectionQuery } from '@/lib/services/collection/query';
+
+const DEFAULT_LIMIT = 24;
+const MAX_LIMIT = 100;
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const cursorParam = searchParams.get('cursor');
+  const limitParam = searchParams.get('limit');
+
+  const cursor = cursorParam ? Number(cursorParam) : null;
+  if (cursor !== null && (!Number.isInteger(cursor) || cursor < 0)) {
+    return NextResponse.json({ success: false, error: 'cursor must be a nextCursor from a previous page' }, { status: 400 });
+  }
+
+  const limit = limitParam ? Number(limitParam) : DEFAULT_LIMIT;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    return NextResponse.json({ success: false, error: `limit must be between 1 and ${MAX_LIMIT}` }, { status: 400 });
+  }
+
+  const { query, error } = parseCollectionQuery(searchParams);
+  if (!query) {
+    return NextResponse.json({ success: false, error }, { status: 400 });
+  }
+
+  try {
+    const page = await getIndexer().getPage(query, cursor, limit);
+    return NextResponse.json({ success: true, ...page });
+  } catch (error) {
+    console.error('[Collection] Page error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to load collection',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 502 });
+  }
+}
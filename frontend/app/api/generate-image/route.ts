@@ -1,231 +1,114 @@
 /**
  * API Route: Generate Image with AI
- * Supports multiple providers: Together.ai (free tier) or Gemini (requires billing)
+ * Providers come from the image provider registry (Together.ai, Gemini, ...)
+ * A request may name a provider; otherwise the first configured one that supports it is used
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { AspectRatio, ImageResolution } from '@/lib/types';
+import {
+  generateWithProvider,
+  isQuotaError,
+  listImageProviders,
+  selectImageProvider,
+  validateImageOptions,
+} from '@/lib/services/imageProviders';
+import { meterUsage, refundUsage, UsageIdentity } from '@/lib/services/usage';
 
-// Together.ai has $5 free credits - get key from https://api.together.xyz/
-const TOGETHER_API_KEY = process.env.TOGETHER_API_KEY;
-// Gemini requires billing for image generation
-const GEMINI_API_KEY = process.env.GEMINI_API_KEY;
-
-const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+export async function POST(request: NextRequest) {
+  let providerName = 'Image provider';
+  let usageIdentity: UsageIdentity | undefined;
 
-async function retryOperation<T>(
-  operation: () => Promise<T>,
-  retries = 3,
-  baseDelay = 3000
-): Promise<T> {
   try {
-    return await operation();
-  } catch (error: any) {
-    const isRateLimit =
-      error.message?.includes('429') ||
-      error.message?.includes('Quota') ||
-      error.status === 429;
-
-    if (retries > 0 && isRateLimit) {
-      const jitter = Math.random() * 1000;
-      const delay = baseDelay + jitter;
-      console.warn(`[API] Rate limit hit. Retrying in ${Math.round(delay)}ms... (${retries} retries left)`);
-      await wait(delay);
-      return retryOperation(operation, retries - 1, baseDelay * 2);
-    }
-    throw error;
-  }
-}
-
-// Generate image using Together.ai Flux model (has free tier)
-async function generateWithTogether(prompt: string, style: string): Promise<string> {
-  const fullPrompt = `${style} style NFT artwork: ${prompt}. High quality, centered composition, vibrant colors, no text or watermarks.`;
-
-  console.log('[API] Using Together.ai Flux model...');
-  console.log('[API] Full prompt:', fullPrompt);
-
-  const response = await fetch('https://api.together.xyz/v1/images/generations', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${TOGETHER_API_KEY}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: 'black-forest-labs/FLUX.1-schnell-Free',
-      prompt: fullPrompt,
-      width: 1024,
-      height: 1024,
-      steps: 4,
-      n: 1,
-      response_format: 'b64_json',
-    }),
-  });
-
-  if (!response.ok) {
-    const error = await response.json();
-    throw new Error(error.error?.message || `Together API error: ${response.status}`);
-  }
-
-  const data = await response.json();
-  const base64 = data.data?.[0]?.b64_json;
-
-  if (!base64) {
-    throw new Error('No image data in response');
-  }
-
-  return `data:image/png;base64,${base64}`;
-}
+    const body = await request.json();
+    const { prompt, style, referenceImage, seed, provider: providerId } = body;
+    const resolution: ImageResolution = body.resolution || ImageResolution.RES_1K;
+    const aspectRatio: AspectRatio = body.aspectRatio || AspectRatio.SQUARE;
 
-// Generate image using Gemini 3 Pro Image Preview (same as anita project)
-async function generateWithGemini(prompt: string, style: string, referenceImage?: any): Promise<string> {
-  const { GoogleGenAI } = await import('@google/genai');
-  const ai = new GoogleGenAI({ apiKey: GEMINI_API_KEY! });
-
-  const variationMatch = prompt.match(/variation (\d+)/i);
-  const variationNumber = variationMatch ? parseInt(variationMatch[1]) : 1;
-  const basePrompt = prompt.replace(/\s*-\s*variation\s*\d+/i, '').trim();
-
-  let fullPrompt: string;
-  let contentParts: any[];
-
-  if (referenceImage) {
-    fullPrompt = `Generate NFT variation #${variationNumber} that EXACTLY MATCHES the character shown in the reference image.
-
-CRITICAL: The character must be IDENTICAL to the reference image in these aspects:
-- Same species/type
-- Same pose and body structure
-- Same art style and proportions
-- Same perspective and angle
-- Same level of detail
-
-ONLY CHANGE THESE TRAIT LAYERS (randomize):
-1. Background color/pattern
-2. Fur/skin color or pattern
-3. Eyes (color, expression)
-4. Clothing/outfit
-5. Accessories (hat, glasses, jewelry)
-6. Facial expression
-7. Special effects (glow, aura, etc.)
-
-ARTISTIC STYLE: ${style}
-
-Generate a new variation with 2-4 randomized traits while keeping the BASE CHARACTER exactly the same as shown in the reference image.`;
-
-    contentParts = [
-      { text: fullPrompt },
-      {
-        inlineData: {
-          mimeType: referenceImage.mimeType || 'image/png',
-          data: referenceImage.data
-        }
-      }
-    ];
-  } else {
-    fullPrompt = `Generate the FIRST NFT in a collection - this will be the BASE CHARACTER template for the entire collection.
-
-SUBJECT: ${basePrompt}
-ARTISTIC STYLE: ${style}
-
-REQUIREMENTS FOR BASE CHARACTER:
-1. Create a distinctive, memorable character that can have variations
-2. Simple, clean design that works well with different accessories/colors
-3. Centered composition (character takes 60-80% of frame)
-4. Clear, bold colors and high contrast
-5. Professional ${style} art style
-6. Same perspective/angle that can be replicated
-7. Expression should be neutral or slightly positive (easy to vary later)
-8. No text, watermarks, or numbers
-
-This is variation #1 - the foundation for the entire collection. Keep it clean and versatile for future variations.`;
-
-    contentParts = [{ text: fullPrompt }];
-  }
+    if (!prompt || typeof prompt !== 'string') {
+      return NextResponse.json(
+        { error: 'Invalid prompt provided' },
+        { status: 400 }
+      );
+    }
 
-  console.log('[API] Using Gemini 3 Pro Image Preview...');
-  console.log('[API] Full prompt:', fullPrompt);
-  console.log('[API] Has reference image:', !!referenceImage);
-
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-pro-image-preview',
-    contents: {
-      parts: contentParts,
-    },
-    config: {
-      imageConfig: {
-        aspectRatio: "1:1",
-      },
-    },
-  });
+    const optionsError = validateImageOptions(resolution, aspectRatio);
+    if (optionsError) {
+      return NextResponse.json(
+        { error: optionsError },
+        { status: 400 }
+      );
+    }
 
-  const responseParts = response.candidates?.[0]?.content?.parts || [];
-  for (const part of responseParts) {
-    if (part.inlineData) {
-      return `data:${part.inlineData.mimeType || 'image/png'};base64,${part.inlineData.data}`;
+    if (seed !== undefined && !Number.isInteger(seed)) {
+      return NextResponse.json(
+        { error: 'Invalid seed provided' },
+        { status: 400 }
+      );
     }
-  }
 
-  throw new Error('No image in Gemini response');
-}
+    if (providerId !== undefined && typeof providerId !== 'string') {
+      return NextResponse.json(
+        { error: 'Invalid provider provided' },
+        { status: 400 }
+      );
+    }
 
-export async function POST(request: NextRequest) {
-  try {
-    // Check which provider is available
-    const hasTogetherKey = !!TOGETHER_API_KEY;
-    const hasGeminiKey = !!GEMINI_API_KEY;
+    // Pick the named provider, or the first configured one that supports this request
+    const selection = selectImageProvider({ referenceImage: !!referenceImage, resolution, aspectRatio, seed: seed !== undefined }, providerId);
 
-    if (!hasTogetherKey && !hasGeminiKey) {
+    if (!selection.provider) {
       return NextResponse.json(
-        {
-          error: 'No AI API key configured',
-          details: 'Add TOGETHER_API_KEY (free: https://api.together.xyz) or GEMINI_API_KEY (requires billing) to .env.local'
-        },
-        { status: 500 }
+        { error: selection.error, details: selection.details },
+        { status: selection.status || 500 }
       );
     }
 
-    const body = await request.json();
-    const { prompt, style, referenceImage } = body;
-
-    if (!prompt || typeof prompt !== 'string') {
+    // Counts against the requester's daily image quota (refunded if generation fails)
+    const usage = await meterUsage(request.headers, { images: 1 });
+    if (!usage.identity) {
       return NextResponse.json(
-        { error: 'Invalid prompt provided' },
-        { status: 400 }
+        { error: usage.error, retryAfter: usage.retryAfter },
+        { status: usage.status, headers: usage.retryAfter ? { 'Retry-After': String(usage.retryAfter) } : undefined }
       );
     }
+    usageIdentity = usage.identity;
+
+    const provider = selection.provider;
+    providerName = provider.name;
 
     console.log('[API] Generating image...');
     console.log('[API] Prompt:', prompt);
     console.log('[API] Style:', style);
-    console.log('[API] Provider:', hasTogetherKey ? 'Together.ai' : 'Gemini');
+    console.log('[API] Resolution:', resolution);
+    console.log('[API] Aspect ratio:', aspectRatio);
+    console.log('[API] Provider:', provider.name);
 
-    let imageUrl: string;
-
-    // Try Together.ai first (has free tier), fallback to Gemini
-    if (hasTogetherKey) {
-      imageUrl = await retryOperation(() => generateWithTogether(prompt, style));
-    } else {
-      imageUrl = await retryOperation(() => generateWithGemini(prompt, style, referenceImage));
-    }
+    const image = await generateWithProvider(provider, { prompt, style, resolution, aspectRatio, referenceImage, seed });
 
     console.log('[API] Success!');
+    console.log(`[API] Dimensions: ${image.width}x${image.height}`);
 
     return NextResponse.json({
       success: true,
-      imageUrl,
       prompt,
+      ...image,
     });
 
   } catch (error: any) {
     console.error('[API] Error:', error.message || error);
 
+    if (usageIdentity) {
+      await refundUsage(usageIdentity, { images: 1 });
+    }
+
     // Check if it's a quota error and provide helpful message
-    if (error.message?.includes('429') || error.message?.includes('Quota')) {
+    if (isQuotaError(error)) {
       return NextResponse.json({
         error: 'API quota exceeded',
-        details: TOGETHER_API_KEY
-          ? 'Together.ai rate limit hit. Wait a moment and try again.'
-          : 'Gemini image generation requires billing. Get a free Together.ai key at https://api.together.xyz',
+        details: `${providerName} rate limit hit. Wait a moment and try again.`,
         retryAfter: 30
-      }, { status: 429 });
+      }, { status: 429, headers: { 'Retry-After': '30' } });
     }
 
     return NextResponse.json(
@@ -235,6 +118,20 @@ export async function POST(request: NextRequest) {
   }
 }
 
+/**
+ * List registered providers with their capabilities and configuration state
+ */
+export async function GET() {
+  return NextResponse.json({
+    providers: listImageProviders().map(provider => ({
+      id: provider.id,
+      name: provider.name,
+      configured: provider.isConfigured(),
+      capabilities: provider.capabilities,
+    })),
+  });
+}
+
 export async function OPTIONS() {
   return NextResponse.json({}, { status: 200 });
 }
@@ -0,0 +1,20 @@
+/**
+ * API Route: Indexer
+ * GET - Contract event index status: indexed block, token / transfer / creator counts
+ * and the last sync error. Reads the stored index only (does not wait for a sync).
+ */
+
+import { NextResponse } from 'next/server';
+import { getIndexer } from '@/lib/services/indexer';
+
+export async function GET() {
+  try {
+    return NextResponse.json({ success: true, indexer: await getIndexer().getStatus() });
+  } catch (error) {
+    console.error('[Indexer] Status error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to load indexer status', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * API Route: Generation Job Event Stream (Server-Sent Events)
+ * Streams a snapshot on connect, then per-item events
+ * (queued, generating, image_ready, metadata_ready, completed, failed)
+ * and job status changes. Any number of tabs can watch the same job.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  ensureJobRunning,
+  getJobStore,
+  isValidJobId,
+  JobEvent,
+  subscribeToJob,
+  toJobSnapshot,
+} from '@/lib/services/jobs';
+
+export const dynamic = 'force-dynamic';
+
+const HEARTBEAT_INTERVAL = 15000;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  if (!isValidJobId(id)) {
+    return NextResponse.json({ success: false, error: 'Invalid job id' }, { status: 400 });
+  }
+
+  const job = await getJobStore().get(id);
+  if (!job) {
+    return NextResponse.json({ success: false, error: 'Job not found' }, { status: 404 });
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+
+      const send = (event: JobEvent) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`));
+      };
+
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client
+        }
+      };
+
+      // Subscribe before the snapshot so nothing is missed in between
+      const unsubscribe = subscribeToJob(id, event => {
+        send(event);
+        if (event.type === 'job' && (event.status === 'completed' || event.status === 'failed')) {
+          close();
+        }
+      });
+
+      const heartbeat = setInterval(() => {
+        if (!closed) controller.enqueue(encoder.encode(': ping\n\n'));
+      }, HEARTBEAT_INTERVAL);
+
+      cleanup = () => {
+        unsubscribe();
+        clearInterval(heartbeat);
+      };
+
+      request.signal.addEventListener('abort', close);
+
+      send({ type: 'snapshot', job: toJobSnapshot(job) });
+
+      if (job.status === 'completed' || job.status === 'failed') {
+        close();
+        return;
+      }
+
+      // Resume jobs whose worker was lost (e.g. server restart)
+      ensureJobRunning(job);
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+    },
+  });
+}
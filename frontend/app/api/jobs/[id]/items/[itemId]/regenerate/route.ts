@@ -0,0 +1,81 @@
+/**
+ * API Route: Regenerate Job Item
+ * Re-runs a single finished (or failed) item, optionally with an edited prompt
+ * and a locked seed. The previous result is kept in the item's history.
+ * Responds once the new image is ready; watchers also get the usual item events.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireOwner } from '@/lib/services/auth';
+import { getJobStore, isValidJobId, regenerateItem, toItemView } from '@/lib/services/jobs';
+import { meterUsage, refundUsage, UsageIdentity } from '@/lib/services/usage';
+
+const MAX_PROMPT_LENGTH = 2000;
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; itemId: string }> }
+) {
+  const { id, itemId } = await params;
+
+  if (!isValidJobId(id)) {
+    return NextResponse.json({ success: false, error: 'Invalid job id' }, { status: 400 });
+  }
+
+  // Jobs started by a signed-in wallet can only be changed by that wallet
+  const auth = requireOwner(request.headers, (await getJobStore().get(id))?.owner);
+  if (auth.error) {
+    return NextResponse.json({ success: false, error: auth.error }, { status: auth.status });
+  }
+
+  let usageIdentity: UsageIdentity | undefined;
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { prompt, seed } = body;
+
+    if (prompt !== undefined && (typeof prompt !== 'string' || prompt.length > MAX_PROMPT_LENGTH)) {
+      return NextResponse.json(
+        { success: false, error: `Prompt must be a string of at most ${MAX_PROMPT_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    if (seed !== undefined && (!Number.isInteger(seed) || seed < 0)) {
+      return NextResponse.json(
+        { success: false, error: 'Seed must be a non-negative integer' },
+        { status: 400 }
+      );
+    }
+
+    // One image against the daily quota, refunded if the regeneration fails
+    const usage = await meterUsage(request.headers, { images: 1 });
+    if (!usage.identity) {
+      return NextResponse.json(
+        { success: false, error: usage.error, retryAfter: usage.retryAfter },
+        { status: usage.status, headers: usage.retryAfter ? { 'Retry-After': String(usage.retryAfter) } : undefined }
+      );
+    }
+    usageIdentity = usage.identity;
+
+    const result = await regenerateItem(id, itemId, { prompt, seed });
+    if (result.item?.status !== 'completed') {
+      await refundUsage(usageIdentity, { images: 1 });
+    }
+
+    if (!result.item) {
+      return NextResponse.json({ success: false, error: result.error }, { status: result.status || 500 });
+    }
+
+    return NextResponse.json({ success: true, item: toItemView(result.item) });
+  } catch (error) {
+    console.error('[API] Item regeneration error:', error);
+    if (usageIdentity) {
+      await refundUsage(usageIdentity, { images: 1 });
+    }
+    return NextResponse.json(
+      { success: false, error: 'Failed to regenerate item', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * API Route: Revert Job Item
+ * Restores a previous attempt from the item's history.
+ * The replaced result takes its slot, so a revert can itself be undone.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireOwner } from '@/lib/services/auth';
+import { getJobStore, isValidJobId, revertItem, toItemView } from '@/lib/services/jobs';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; itemId: string }> }
+) {
+  const { id, itemId } = await params;
+
+  if (!isValidJobId(id)) {
+    return NextResponse.json({ success: false, error: 'Invalid job id' }, { status: 400 });
+  }
+
+  // Jobs started by a signed-in wallet can only be changed by that wallet
+  const auth = requireOwner(request.headers, (await getJobStore().get(id))?.owner);
+  if (auth.error) {
+    return NextResponse.json({ success: false, error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const { attempt } = await request.json();
+
+    if (!Number.isInteger(attempt) || attempt < 0) {
+      return NextResponse.json(
+        { success: false, error: 'attempt must be a history index' },
+        { status: 400 }
+      );
+    }
+
+    const result = await revertItem(id, itemId, attempt);
+    if (!result.item) {
+      return NextResponse.json({ success: false, error: result.error }, { status: result.status || 500 });
+    }
+
+    return NextResponse.json({ success: true, item: toItemView(result.item) });
+  } catch (error) {
+    console.error('[API] Item revert error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to revert item', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * API Route: Generation Job Item
+ * Returns one item including its previous attempts (omitted from snapshots and events).
+ */
+
+import { NextResponse } from 'next/server';
+import { getJobStore, isValidJobId } from '@/lib/services/jobs';
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string; itemId: string }> }
+) {
+  const { id, itemId } = await params;
+
+  if (!isValidJobId(id)) {
+    return NextResponse.json({ success: false, error: 'Invalid job id' }, { status: 400 });
+  }
+
+  const job = await getJobStore().get(id);
+  const item = job?.items.find(i => i.id === itemId);
+  if (!item) {
+    return NextResponse.json({ success: false, error: job ? 'Item not found' : 'Job not found' }, { status: 404 });
+  }
+
+  return NextResponse.json({
+    success: true,
+    item: { ...item, history: item.history || [] },
+  });
+}
@@ -0,0 +1,36 @@
+/**
+ * API Route: Generation Job Status
+ * Returns per-item progress and results for a job.
+ * For live updates prefer the SSE stream at /api/jobs/:id/events.
+ * Pass ?since=<ms> to omit image data for items unchanged since the last poll.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ensureJobRunning, getJobStore, isValidJobId, toJobSnapshot } from '@/lib/services/jobs';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  if (!isValidJobId(id)) {
+    return NextResponse.json({ success: false, error: 'Invalid job id' }, { status: 400 });
+  }
+
+  const job = await getJobStore().get(id);
+  if (!job) {
+    return NextResponse.json({ success: false, error: 'Job not found' }, { status: 404 });
+  }
+
+  // Resume jobs whose worker was lost (e.g. server restart)
+  ensureJobRunning(job);
+
+  const sinceParam = request.nextUrl.searchParams.get('since');
+  const since = sinceParam ? Number(sinceParam) : undefined;
+
+  return NextResponse.json({
+    success: true,
+    job: toJobSnapshot(job, Number.isFinite(since) ? since : undefined),
+  });
+}
@@ -0,0 +1,32 @@
+/**
+ * API Route: Generation Job Sketch
+ * Returns the original sketch a job was started from, so the browser can
+ * upload it for provenance even after a reload.
+ */
+
+import { NextResponse } from 'next/server';
+import { getJobStore, isValidJobId } from '@/lib/services/jobs';
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  if (!isValidJobId(id)) {
+    return NextResponse.json({ success: false, error: 'Invalid job id' }, { status: 400 });
+  }
+
+  const job = await getJobStore().get(id);
+  if (!job?.referenceImage) {
+    return NextResponse.json(
+      { success: false, error: job ? 'Job has no sketch' : 'Job not found' },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({
+    success: true,
+    sketch: job.referenceImage,
+  });
+}
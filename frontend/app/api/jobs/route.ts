@@ -0,0 +1,102 @@
+/**
+ * API Route: Generation Jobs
+ * Accepts a GenerationConfig plus reference image and runs the collection
+ * server-side. Watch GET /api/jobs/:id/events (SSE) or poll GET /api/jobs/:id
+ * for per-item progress and results.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { AspectRatio, GenerationConfig, ImageResolution } from '@/lib/types';
+import { validateImageOptions } from '@/lib/services/imageProviders';
+import { getSession } from '@/lib/services/auth';
+import { createJob, ensureJobRunning, toJobSnapshot } from '@/lib/services/jobs';
+import { validateTraitSchema } from '@/lib/services/traitService';
+import { meterUsage, refundUsage, UsageIdentity } from '@/lib/services/usage';
+
+const MAX_JOB_ITEMS = 20;
+
+export async function POST(request: NextRequest) {
+  let usageIdentity: UsageIdentity | undefined;
+  let chargedImages = 0;
+
+  try {
+    const body = await request.json();
+    const { config, referenceImage } = body;
+
+    if (!config || typeof config.prompt !== 'string' || typeof config.style !== 'string') {
+      return NextResponse.json(
+        { success: false, error: 'Invalid generation config provided' },
+        { status: 400 }
+      );
+    }
+
+    const count = Number(config.count);
+    if (!Number.isInteger(count) || count < 1 || count > MAX_JOB_ITEMS) {
+      return NextResponse.json(
+        { success: false, error: `Collection size must be between 1 and ${MAX_JOB_ITEMS}` },
+        { status: 400 }
+      );
+    }
+
+    const generationConfig: GenerationConfig = {
+      prompt: config.prompt,
+      style: config.style,
+      count,
+      resolution: config.resolution || ImageResolution.RES_1K,
+      aspectRatio: config.aspectRatio || AspectRatio.SQUARE,
+      traits: config.traits ?? undefined,
+    };
+
+    const optionsError = validateImageOptions(generationConfig.resolution, generationConfig.aspectRatio);
+    if (optionsError) {
+      return NextResponse.json({ success: false, error: optionsError }, { status: 400 });
+    }
+
+    if (generationConfig.traits !== undefined) {
+      const traitsError = validateTraitSchema(generationConfig.traits);
+      if (traitsError) {
+        return NextResponse.json({ success: false, error: traitsError }, { status: 400 });
+      }
+    }
+
+    if (referenceImage && (typeof referenceImage.data !== 'string' || typeof referenceImage.mimeType !== 'string')) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid reference image provided' },
+        { status: 400 }
+      );
+    }
+
+    // Every item counts against the daily image quota up front - the worker refunds failed items
+    const usage = await meterUsage(request.headers, { images: count });
+    if (!usage.identity) {
+      return NextResponse.json(
+        { success: false, error: usage.error, retryAfter: usage.retryAfter },
+        { status: usage.status, headers: usage.retryAfter ? { 'Retry-After': String(usage.retryAfter) } : undefined }
+      );
+    }
+    usageIdentity = usage.identity;
+    chargedImages = count;
+
+    // Attributed to the signed-in wallet, if any
+    const job = await createJob(generationConfig, referenceImage, getSession(request.headers)?.address, usageIdentity);
+    ensureJobRunning(job);
+
+    return NextResponse.json({
+      success: true,
+      jobId: job.id,
+      job: toJobSnapshot(job),
+    });
+
+  } catch (error) {
+    console.error('[Jobs API] Create error:', error);
+
+    if (usageIdentity) {
+      await refundUsage(usageIdentity, { images: chargedImages });
+    }
+
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to create job' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * API Route: Wallet Profile
+ * GET - Tokens owned by an address (getTokensOfOwner) and tokens it created, newest
+ * first, with counts per style. Token details come from the contract event index.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ethers } from 'ethers';
+import { getIndexer } from '@/lib/services/indexer';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ address: string }> }
+) {
+  const { address } = await params;
+
+  if (!ethers.isAddress(address)) {
+    return NextResponse.json({ success: false, error: 'Invalid wallet address' }, { status: 400 });
+  }
+
+  try {
+    const profile = await getIndexer().getProfile(ethers.getAddress(address));
+    return NextResponse.json({ success: true, profile });
+  } catch (error) {
+    console.error('[Collection] Profile error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to load profile',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 502 });
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * API Route: Stored File
+ * GET - Serve a file from the configured storage backend by its Merkle root
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { detectContentType, getStorageBackend, isValidRoot } from '@/lib/services/storage';
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ hash: string }> }
+) {
+  const { hash } = await params;
+
+  if (!isValidRoot(hash)) {
+    return NextResponse.json({ success: false, error: 'Invalid storage root' }, { status: 400 });
+  }
+
+  try {
+    const bytes = await getStorageBackend().get(hash);
+
+    if (!bytes) {
+      return NextResponse.json({ success: false, error: 'File not found' }, { status: 404 });
+    }
+
+    return new NextResponse(Buffer.from(bytes), {
+      headers: {
+        'Content-Type': detectContentType(bytes),
+        // Content-addressed: the bytes behind a root never change
+        'Cache-Control': 'public, max-age=31536000, immutable',
+      },
+    });
+  } catch (error) {
+    console.error(`[Storage] Failed to read ${hash}:`, error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to read from storage',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 502 });
+  }
+}
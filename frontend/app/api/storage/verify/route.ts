@@ -0,0 +1,51 @@
+/**
+ * API Route: Storage Verification
+ * GET ?root=0x..&tokenId=n - Download through the configured backend, recompute the
+ * Merkle root and report ok / mismatch / missing (tokenId also checks getNFTData)
+ * Downloads are size-capped and rate-limited per requester; settled results are cached.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { isValidRoot } from '@/lib/services/storage';
+import { getCachedVerification, verifyStoredFile } from '@/lib/services/storage/verify';
+import { meterVerification } from '@/lib/services/usage';
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const root = searchParams.get('root') || '';
+  const tokenIdParam = searchParams.get('tokenId');
+
+  if (!isValidRoot(root)) {
+    return NextResponse.json({ success: false, error: 'root must be a 32-byte hex root' }, { status: 400 });
+  }
+
+  const tokenId = tokenIdParam === null ? undefined : Number(tokenIdParam);
+  if (tokenId !== undefined && (!Number.isInteger(tokenId) || tokenId < 0)) {
+    return NextResponse.json({ success: false, error: 'tokenId must be a non-negative integer' }, { status: 400 });
+  }
+
+  const cached = getCachedVerification(root, tokenId);
+  if (cached) {
+    return NextResponse.json({ success: true, ...cached });
+  }
+
+  const usage = meterVerification(request.headers);
+  if (!usage.identity) {
+    return NextResponse.json(
+      { success: false, error: usage.error, retryAfter: usage.retryAfter },
+      { status: usage.status, headers: usage.retryAfter ? { 'Retry-After': String(usage.retryAfter) } : undefined }
+    );
+  }
+
+  try {
+    const verification = await verifyStoredFile(root, tokenId);
+    return NextResponse.json({ success: true, ...verification });
+  } catch (error) {
+    console.error(`[Storage] Verification of ${root} failed:`, error);
+    return NextResponse.json({
+      success: false,
+      error: 'Verification failed',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 502 });
+  }
+}
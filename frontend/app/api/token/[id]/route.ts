@@ -0,0 +1,35 @@
+/**
+ * API Route: Token
+ * GET - One minted token with prompt, mint time, metadata, current owner and its
+ * Transfer history, from the contract event index.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getIndexer } from '@/lib/services/indexer';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const tokenId = Number(id);
+
+  if (!/^\d+$/.test(id) || !Number.isSafeInteger(tokenId)) {
+    return NextResponse.json({ success: false, error: 'Invalid token id' }, { status: 400 });
+  }
+
+  try {
+    const detail = await getIndexer().getToken(tokenId);
+    if (!detail) {
+      return NextResponse.json({ success: false, error: 'Token not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, detail });
+  } catch (error) {
+    console.error('[Collection] Token error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to load token',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 502 });
+  }
+}
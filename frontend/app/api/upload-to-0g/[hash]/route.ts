@@ -0,0 +1,33 @@
+/**
+ * API Route: Mock Stored File (dev mode)
+ * GET - Serve a file stored by the mock upload route by its Merkle root
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { detectContentType, getMockStorage, isValidRoot } from '@/lib/services/storage';
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ hash: string }> }
+) {
+  const { hash } = await params;
+
+  if (!isValidRoot(hash)) {
+    return NextResponse.json({ success: false, error: 'Invalid storage root' }, { status: 400 });
+  }
+
+  const bytes = await getMockStorage().get(hash);
+
+  if (!bytes) {
+    return NextResponse.json({ success: false, mode: 'mock', error: 'File not found' }, { status: 404 });
+  }
+
+  return new NextResponse(Buffer.from(bytes), {
+    headers: {
+      'Content-Type': detectContentType(bytes),
+      'Cache-Control': 'public, max-age=31536000, immutable',
+      // Lets clients tell mock content apart from real storage
+      'X-Storage-Mode': 'mock',
+    },
+  });
+}
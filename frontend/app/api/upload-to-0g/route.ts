@@ -1,16 +1,13 @@
 /**
- * API Route: Upload to 0G Storage
- * Server-side route that handles uploads to 0G decentralized storage
- *
- * For MVP: Uses content-hash based storage simulation
- * For Production: Integrate 0G SDK with backend wallet for on-chain storage
+ * API Route: Mock Storage Upload (dev mode)
+ * Stands in for 0G Storage without a wallet or network: files are persisted locally
+ * (MOCK_STORAGE_DIR), addressed by their real 0G Merkle root and served back by
+ * GET /api/upload-to-0g/[hash]. Nothing is submitted to 0G, so every response is
+ * tagged mode: "mock" - real uploads go through /api/zg-storage.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import crypto from 'crypto';
-
-// 0G Storage configuration
-const STORAGE_GATEWAY = process.env.NEXT_PUBLIC_0G_GATEWAY || 'https://indexer-testnet.0g.ai';
+import { decodeUploadData, detectContentType, getMockStorage } from '@/lib/services/storage';
 
 export async function POST(request: NextRequest) {
   try {
@@ -19,61 +16,48 @@ export async function POST(request: NextRequest) {
 
     if (!data) {
       return NextResponse.json(
-        { error: 'No data provided' },
+        { success: false, mode: 'mock', error: 'No data provided' },
         { status: 400 }
       );
     }
 
-    console.log('[0G Storage API] Starting upload...');
-    console.log('[0G Storage API] Data type:', type);
-
-    let contentBuffer: Buffer;
-    let contentType: string;
-
-    // Handle different data types
-    if (type === 'image') {
-      // Convert base64 to buffer
-      const parts = data.split(',');
-      contentType = parts[0].match(/:(.*?);/)?.[1] || 'image/png';
-      const base64 = parts[1];
-      contentBuffer = Buffer.from(base64, 'base64');
-      console.log(`[0G Storage API] Image size: ${(contentBuffer.length / 1024).toFixed(2)} KB`);
-    } else if (type === 'json') {
-      // Convert JSON to buffer
-      const jsonString = typeof data === 'string' ? data : JSON.stringify(data, null, 2);
-      contentBuffer = Buffer.from(jsonString, 'utf-8');
-      contentType = 'application/json';
-      console.log(`[0G Storage API] JSON size: ${(contentBuffer.length / 1024).toFixed(2)} KB`);
-    } else {
+    const contentBuffer = decodeUploadData(data, type);
+    if (!contentBuffer) {
       return NextResponse.json(
-        { error: 'Invalid data type. Use "image" or "json"' },
+        { success: false, mode: 'mock', error: 'Invalid data or type. Use "image" (data URL) or "json"' },
         { status: 400 }
       );
     }
 
-    // Generate content-hash (deterministic based on content)
-    // This simulates 0G Storage - same content = same hash
-    const hash = crypto.createHash('sha256').update(contentBuffer).digest('hex');
-    const storageHash = `0x${hash}`;
+    console.log(`[Mock Storage] Storing ${type}, size: ${(contentBuffer.length / 1024).toFixed(2)} KB`);
+
+    const storage = getMockStorage();
+    const result = await storage.put(contentBuffer);
+
+    if (!result.root) {
+      throw new Error(result.error || 'Mock storage failed');
+    }
 
-    console.log(`[0G Storage API] ✅ Content hash generated!`);
-    console.log(`[0G Storage API] Hash: ${storageHash}`);
+    console.warn(`[Mock Storage] ⚠️ ${result.root} is stored locally only - not on 0G`);
 
     return NextResponse.json({
       success: true,
-      hash: storageHash,
-      gatewayUrl: `${STORAGE_GATEWAY}/${storageHash}`,
+      mode: 'mock',
+      hash: result.root,
+      gatewayUrl: storage.urlFor(result.root),
       size: contentBuffer.length,
-      contentType: contentType,
+      contentType: detectContentType(contentBuffer),
+      onChain: false,
     });
 
   } catch (error) {
-    console.error('[0G Storage API] Upload error:', error);
+    console.error('[Mock Storage] Upload error:', error);
 
     return NextResponse.json(
       {
         success: false,
-        error: 'Failed to upload to 0G Storage',
+        mode: 'mock',
+        error: 'Failed to store in mock storage',
         details: error instanceof Error ? error.message : 'Unknown error',
       },
       { status: 500 }
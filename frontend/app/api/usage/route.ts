@@ -0,0 +1,26 @@
+/**
+ * API Route: Usage
+ * GET - Today's image and storage usage, limits and reset time for the requester
+ * (the SIWE session wallet, then the wallet in the usage proof headers, otherwise
+ * the client IP). Not rate-limited.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getUsageIdentity, getUsageSnapshot } from '@/lib/services/usage';
+
+export async function GET(request: NextRequest) {
+  const { identity, error, status } = getUsageIdentity(request.headers);
+  if (!identity) {
+    return NextResponse.json({ success: false, error }, { status });
+  }
+
+  try {
+    return NextResponse.json({ success: true, usage: await getUsageSnapshot(identity) });
+  } catch (error) {
+    console.error('[Usage] Usage lookup error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to load usage', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * API Route: Batch 0G Storage Upload
+ * POST { files: [{ id, data, type }], txHash? } - Stores a whole collection in one request
+ *
+ * New files are paid for with as few Flow transactions as possible (batchSubmit),
+ * segments are uploaded concurrently, and the response maps each file id to its result
+ * so every card can be updated from one response. In user-pays mode txHash is the
+ * user's own batchSubmit covering the files.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { decodeUploadData, getStorageBackend } from '@/lib/services/storage';
+import { meterUsage, refundUsage, UsageIdentity } from '@/lib/services/usage';
+
+const MAX_BATCH_FILES = 50;
+
+interface BatchFile {
+  id: string;
+  data: unknown;
+  type: 'image' | 'json';
+}
+
+export async function POST(request: NextRequest) {
+  let usageIdentity: UsageIdentity | undefined;
+  let chargedBytes = 0;
+
+  try {
+    const body = await request.json();
+    const { files, txHash: userTxHash } = body as { files?: BatchFile[]; txHash?: unknown };
+
+    if (!Array.isArray(files) || files.length === 0) {
+      return NextResponse.json({ success: false, error: 'No files provided' }, { status: 400 });
+    }
+
+    if (files.length > MAX_BATCH_FILES) {
+      return NextResponse.json({ success: false, error: `At most ${MAX_BATCH_FILES} files per batch` }, { status: 400 });
+    }
+
+    if (userTxHash !== undefined && (typeof userTxHash !== 'string' || !/^0x[0-9a-fA-F]{64}$/.test(userTxHash))) {
+      return NextResponse.json({ success: false, error: 'txHash must be a transaction hash' }, { status: 400 });
+    }
+
+    const ids = new Set<string>();
+    const buffers: Buffer[] = [];
+
+    for (const file of files) {
+      if (typeof file?.id !== 'string' || !file.id || ids.has(file.id)) {
+        return NextResponse.json({ success: false, error: 'Every file needs a unique id' }, { status: 400 });
+      }
+
+      const buffer = file.data ? decodeUploadData(file.data, file.type) : null;
+      if (!buffer) {
+        return NextResponse.json({ success: false, error: `Invalid data or type for file ${file.id}` }, { status: 400 });
+      }
+
+      ids.add(file.id);
+      buffers.push(buffer);
+    }
+
+    const backend = getStorageBackend();
+    const totalSize = buffers.reduce((sum, buffer) => sum + buffer.length, 0);
+    console.log(`[0G Storage] Starting batch upload of ${files.length} files, ${(totalSize / 1024).toFixed(2)} KB (${backend.name} backend)...`);
+
+    // The whole batch counts against the daily storage quota; reused and failed files are refunded
+    const usage = await meterUsage(request.headers, { storageBytes: totalSize });
+    if (!usage.identity) {
+      return NextResponse.json(
+        { success: false, error: usage.error, retryAfter: usage.retryAfter },
+        { status: usage.status, headers: usage.retryAfter ? { 'Retry-After': String(usage.retryAfter) } : undefined }
+      );
+    }
+    usageIdentity = usage.identity;
+    chargedBytes = totalSize;
+
+    const putResults = await backend.putBatch(buffers, { txHash: userTxHash });
+
+    const unchargedBytes = putResults.reduce(
+      (sum, result, i) => (!result.root || result.reused ? sum + buffers[i].length : sum),
+      0
+    );
+    if (unchargedBytes > 0) {
+      await refundUsage(usageIdentity, { storageBytes: unchargedBytes });
+    }
+    chargedBytes -= unchargedBytes;
+
+    const results: Record<string, {
+      success: boolean;
+      root?: string;
+      txHash?: string;
+      reused?: boolean;
+      size: number;
+      type: string;
+      gatewayUrl?: string;
+      error?: string;
+    }> = {};
+
+    files.forEach((file, i) => {
+      const result = putResults[i];
+      results[file.id] = result.root
+        ? {
+          success: true,
+          root: result.root,
+          txHash: result.txHash,
+          reused: !!result.reused,
+          size: buffers[i].length,
+          type: file.type,
+          gatewayUrl: backend.urlFor(result.root),
+        }
+        : { success: false, size: buffers[i].length, type: file.type, error: result.error || 'Upload failed' };
+    });
+
+    const uploaded = Object.values(results).filter(result => result.success).length;
+    console.log(`[0G Storage] Batch complete: ${uploaded}/${files.length} files stored`);
+
+    // Anything but 'zg' is only on this server - the client warns before minting it
+    return NextResponse.json({ success: uploaded === files.length, uploaded, total: files.length, backend: backend.name, results });
+
+  } catch (error) {
+    console.error('[0G Storage] Batch upload error:', error);
+
+    if (usageIdentity) {
+      await refundUsage(usageIdentity, { storageBytes: chargedBytes });
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Batch upload failed',
+    }, { status: 500 });
+  }
+}
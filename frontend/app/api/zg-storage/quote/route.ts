@@ -0,0 +1,108 @@
+/**
+ * API Route: Storage Cost Quote
+ * POST - Sector counts, per-file and total Flow fees, and batchMint gas before anything is paid
+ *
+ * Body (either or both):
+ * - files: [{ id?, size }] - arbitrary files by byte size
+ * - nfts: [{ id, imageSize, metadataSize, style?, prompt? }] - a pending collection;
+ *   each NFT is quoted as its image and metadata files plus its share of the mint
+ * - sketchSize?: original sketch uploaded once for the collection
+ * - address?: minting wallet the gas estimate is simulated from
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ethers } from 'ethers';
+import { getReadProvider } from '@/lib/services/contractService';
+import { quoteStorage } from '@/lib/services/storage/quote';
+import { ZG_FLOW_CONTRACT } from '@/lib/services/zgStorageService';
+
+const MAX_QUOTE_FILES = 500;
+const MAX_FILE_SIZE = 100 * 1024 * 1024;
+
+// Gas is simulated from a non-zero address when no wallet is connected (minting to 0x0 reverts)
+const PLACEHOLDER_MINTER = '0x000000000000000000000000000000000000dEaD';
+
+interface QuoteNFT {
+  id: string;
+  imageSize: number;
+  metadataSize: number;
+  style?: string;
+  prompt?: string;
+}
+
+function isValidSize(size: unknown): size is number {
+  return Number.isInteger(size) && (size as number) > 0 && (size as number) <= MAX_FILE_SIZE;
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { files = [], nfts = [], sketchSize, address } = body as {
+      files?: { id?: string; size: number }[];
+      nfts?: QuoteNFT[];
+      sketchSize?: number;
+      address?: string;
+    };
+
+    if (!Array.isArray(files) || !Array.isArray(nfts)) {
+      return NextResponse.json({ success: false, error: 'files and nfts must be arrays' }, { status: 400 });
+    }
+
+    if (address !== undefined && !ethers.isAddress(address)) {
+      return NextResponse.json({ success: false, error: 'address must be a wallet address' }, { status: 400 });
+    }
+
+    // Every NFT is stored as an image plus its metadata JSON
+    const quoteFiles = [
+      ...files.map((file, i) => ({ id: file?.id || `file-${i}`, size: file?.size })),
+      ...nfts.flatMap(nft => [
+        { id: `${nft?.id}:image`, size: nft?.imageSize },
+        { id: `${nft?.id}:metadata`, size: nft?.metadataSize },
+      ]),
+      ...(sketchSize !== undefined ? [{ id: 'sketch', size: sketchSize }] : []),
+    ];
+
+    if (quoteFiles.length === 0) {
+      return NextResponse.json({ success: false, error: 'No files to quote' }, { status: 400 });
+    }
+
+    if (quoteFiles.length > MAX_QUOTE_FILES) {
+      return NextResponse.json({ success: false, error: `At most ${MAX_QUOTE_FILES} files per quote` }, { status: 400 });
+    }
+
+    const invalid = quoteFiles.find(file => !isValidSize(file.size));
+    if (invalid) {
+      return NextResponse.json({
+        success: false,
+        error: `Invalid size for ${invalid.id} - must be 1 byte to ${MAX_FILE_SIZE / 1024 / 1024} MB`
+      }, { status: 400 });
+    }
+
+    // Roots are fixed-length, so placeholders give the same calldata size as the real mint
+    const mintNFTs = nfts.map(nft => ({
+      imageHash: ethers.ZeroHash,
+      metadataHash: ethers.ZeroHash,
+      style: String(nft.style ?? ''),
+      prompt: String(nft.prompt ?? ''),
+      originalHash: sketchSize !== undefined ? ethers.ZeroHash : '',
+    }));
+
+    const quote = await quoteStorage(
+      getReadProvider(),
+      ZG_FLOW_CONTRACT,
+      quoteFiles as { id: string; size: number }[],
+      { to: address || PLACEHOLDER_MINTER, nfts: mintNFTs }
+    );
+
+    return NextResponse.json({ success: true, ...quote });
+
+  } catch (error) {
+    console.error('[0G Storage] Quote error:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to quote storage cost',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 502 });
+  }
+}
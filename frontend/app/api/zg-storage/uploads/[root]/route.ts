@@ -0,0 +1,26 @@
+/**
+ * API Route: 0G Upload Status
+ * GET - Upload ledger entry for a Merkle root (submission, segment progress, last error)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { isValidRoot } from '@/lib/services/storage';
+import { getUploadLedger } from '@/lib/services/storage/ledger';
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ root: string }> }
+) {
+  const { root } = await params;
+
+  if (!isValidRoot(root)) {
+    return NextResponse.json({ success: false, error: 'Invalid storage root' }, { status: 400 });
+  }
+
+  const upload = await getUploadLedger().get(root);
+  if (!upload) {
+    return NextResponse.json({ success: false, error: 'No upload recorded for this root' }, { status: 404 });
+  }
+
+  return NextResponse.json({ success: true, upload });
+}
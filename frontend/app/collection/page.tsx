@@ -1,139 +1,191 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef, Suspense } from 'react';
 import { motion } from 'framer-motion';
-import { ethers } from 'ethers';
-import { Loader2, ExternalLink, Grid, List, RefreshCw } from 'lucide-react';
+import { Loader2, ExternalLink, ChevronRight, Grid, List, RefreshCw, PenTool, Search, SlidersHorizontal, X } from 'lucide-react';
 import Image from 'next/image';
 import Link from 'next/link';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
 import { Header } from '@/components/Header';
-import { getTotalMinted, getNFTData, getContractConfig, getTokenExplorerUrl } from '@/lib/services/contractService';
+import { VerifiedBadge } from '@/components/VerifiedBadge';
+import { getContractConfig } from '@/lib/services/contractService';
 import { getStorageUrl } from '@/lib/services/storageService';
+import { COLLECTION_PAGE_SIZE, getCollectionPage } from '@/lib/services/collectionService';
+import type { CollectionFacets, CollectionQuery, CollectionToken } from '@/lib/services/collection/types';
+import {
+  COLLECTION_SORTS,
+  countCollectionFilters,
+  parseCollectionQuery,
+  toCollectionSearchParams,
+} from '@/lib/services/collection/query';
+import { parseDimensions } from '@/lib/services/imageUtils';
 
-interface NFTMetadata {
-  name: string;
-  description: string;
-  image: string;
-  attributes: Array<{
-    trait_type: string;
-    value: string;
-  }>;
-}
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
 
-interface CollectionNFT {
-  tokenId: number;
-  imageHash: string;
-  metadataHash: string;
-  style: string;
-  prompt: string;
-  creator: string;
-  createdAt: number;
-  metadata?: NFTMetadata;
-  imageUrl?: string;
+export default function CollectionPage() {
+  // useSearchParams needs a Suspense boundary to prerender the page
+  return (
+    <Suspense fallback={null}>
+      <CollectionView />
+    </Suspense>
+  );
 }
 
-export default function CollectionPage() {
-  const [nfts, setNfts] = useState<CollectionNFT[]>([]);
+function CollectionView() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  // Filters live in the URL so filtered views can be shared
+  const queryString = searchParams.toString();
+  const parsed = useMemo(() => parseCollectionQuery(new URLSearchParams(queryString)), [queryString]);
+  const query = useMemo(() => parsed.query || {}, [parsed]);
+  const filterCount = countCollectionFilters(query);
+
+  const [nfts, setNfts] = useState<CollectionToken[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
   const [totalMinted, setTotalMinted] = useState(0);
+  const [matched, setMatched] = useState(0);
+  const [facets, setFacets] = useState<CollectionFacets>({ styles: [], traits: {} });
+  const [showFilters, setShowFilters] = useState(filterCount > 0);
+  const [creatorError, setCreatorError] = useState<string | null>(null);
+  // Infinite scroll: cursor of the next page, null once everything is loaded
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [loadMoreError, setLoadMoreError] = useState<string | null>(null);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  // Bumped per first-page load, so pages of a previous filter are dropped
+  const requestRef = useRef(0);
 
   const contractConfig = getContractConfig();
 
-  const loadCollection = async () => {
+  const loadCollection = useCallback(async () => {
+    const request = ++requestRef.current;
     setLoading(true);
     setError(null);
+    setLoadMoreError(null);
+
+    if (parsed.error) {
+      setError(`Invalid filter: ${parsed.error}`);
+      setLoading(false);
+      return;
+    }
 
     try {
-      const provider = new ethers.JsonRpcProvider(process.env.NEXT_PUBLIC_0G_RPC || 'https://evmrpc-testnet.0g.ai');
-
-      // Get total minted count
-      const total = await getTotalMinted(provider);
-      setTotalMinted(total);
-
-      if (total === 0) {
-        setNfts([]);
-        setLoading(false);
-        return;
-      }
-
-      // Load all NFTs (newest first)
-      const nftPromises: Promise<CollectionNFT | null>[] = [];
-
-      for (let i = total - 1; i >= 0; i--) {
-        nftPromises.push(
-          (async () => {
-            try {
-              const data = await getNFTData(provider, i);
-              return {
-                tokenId: i,
-                imageHash: data.coloredImageHash,
-                metadataHash: data.metadataHash,
-                style: data.style,
-                prompt: data.prompt,
-                creator: data.creator,
-                createdAt: data.createdAt,
-              };
-            } catch (err) {
-              console.error(`Failed to load NFT #${i}:`, err);
-              return null;
-            }
-          })()
-        );
-      }
-
-      const results = await Promise.all(nftPromises);
-      const validNfts = results.filter((n): n is CollectionNFT => n !== null);
-
-      // Load metadata for each NFT
-      const nftsWithMetadata = await Promise.all(
-        validNfts.map(async (nft) => {
-          try {
-            if (nft.metadataHash) {
-              const metadataUrl = getStorageUrl(nft.metadataHash);
-              const response = await fetch(metadataUrl);
-              if (response.ok) {
-                const metadata = await response.json();
-                return {
-                  ...nft,
-                  metadata,
-                  imageUrl: metadata.image || getStorageUrl(nft.imageHash),
-                };
-              }
-            }
-            return {
-              ...nft,
-              imageUrl: getStorageUrl(nft.imageHash),
-            };
-          } catch (err) {
-            console.error(`Failed to load metadata for NFT #${nft.tokenId}:`, err);
-            return {
-              ...nft,
-              imageUrl: getStorageUrl(nft.imageHash),
-            };
-          }
-        })
-      );
-
-      setNfts(nftsWithMetadata);
+      const page = await getCollectionPage(query);
+      if (request !== requestRef.current) return;
+      setNfts(page.tokens);
+      setNextCursor(page.nextCursor);
+      setTotalMinted(page.total);
+      setMatched(page.matched);
+      setFacets(page.facets);
     } catch (err) {
+      if (request !== requestRef.current) return;
       console.error('Failed to load collection:', err);
       setError(err instanceof Error ? err.message : 'Failed to load collection');
     } finally {
-      setLoading(false);
+      if (request === requestRef.current) setLoading(false);
+    }
+  }, [parsed, query]);
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || loadingMore) return;
+    const request = requestRef.current;
+    setLoadingMore(true);
+    setLoadMoreError(null);
+
+    try {
+      const page = await getCollectionPage(query, nextCursor);
+      if (request !== requestRef.current) return;
+      setNfts(prev => [...prev, ...page.tokens.filter(token => !prev.some(nft => nft.tokenId === token.tokenId))]);
+      setNextCursor(page.nextCursor);
+      setTotalMinted(page.total);
+      setMatched(page.matched);
+    } catch (err) {
+      if (request !== requestRef.current) return;
+      console.error('Failed to load more NFTs:', err);
+      setLoadMoreError(err instanceof Error ? err.message : 'Failed to load more');
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [query, nextCursor, loadingMore]);
+
+  const updateQuery = (changes: Partial<CollectionQuery>) => {
+    const params = toCollectionSearchParams({ ...query, ...changes });
+    router.replace(params.size > 0 ? `${pathname}?${params}` : pathname, { scroll: false });
+  };
+
+  const updateTrait = (type: string, value: string) => {
+    const traits = { ...query.traits };
+    if (value) {
+      traits[type] = value;
+    } else {
+      delete traits[type];
+    }
+    updateQuery({ traits });
+  };
+
+  const applySearch = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const q = new FormData(event.currentTarget).get('q');
+    updateQuery({ q: typeof q === 'string' && q.trim() ? q.trim() : undefined });
+  };
+
+  const applyCreator = (value: string) => {
+    const creator = value.trim();
+    if (creator && !ADDRESS_PATTERN.test(creator)) {
+      setCreatorError('Enter a wallet address (0x...)');
+      return;
     }
+    setCreatorError(null);
+    if (creator !== (query.creator || '')) updateQuery({ creator: creator || undefined });
+  };
+
+  const clearFilters = () => {
+    setCreatorError(null);
+    updateQuery({ style: undefined, creator: undefined, from: undefined, to: undefined, traits: undefined });
   };
 
+  // Keep values from the URL selectable even before the collection reports them
+  const styleOptions = query.style && !facets.styles.includes(query.style)
+    ? [query.style, ...facets.styles]
+    : facets.styles;
+  const traitOptions = { ...facets.traits };
+  for (const [type, value] of Object.entries(query.traits || {})) {
+    if (!traitOptions[type]?.includes(value)) traitOptions[type] = [value, ...(traitOptions[type] || [])];
+  }
+
   useEffect(() => {
     loadCollection();
-  }, []);
+  }, [loadCollection]);
+
+  // Load the next page when the end of the list scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !nextCursor || loadMoreError) return;
+
+    const observer = new IntersectionObserver(entries => {
+      if (entries[0].isIntersecting) loadMore();
+    }, { rootMargin: '400px' });
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [nextCursor, loadMore, loadMoreError, loading, viewMode]);
 
   const formatAddress = (address: string) => {
     return `${address.slice(0, 6)}...${address.slice(-4)}`;
   };
 
-  const formatDate = (timestamp: number) => {
+  // Render non-square images at their own ratio (from the metadata Resolution attribute)
+  const getCssAspectRatio = (nft: CollectionToken) => {
+    const resolution = nft.metadata?.attributes?.find(a => a.trait_type === 'Resolution')?.value;
+    const dimensions = parseDimensions(resolution);
+    return dimensions ? `${dimensions.width} / ${dimensions.height}` : '1 / 1';
+  };
+
+  const formatDate = (timestamp?: number) => {
+    if (!timestamp) return '—';
     return new Date(timestamp * 1000).toLocaleDateString('en-US', {
       month: 'short',
       day: 'numeric',
@@ -165,7 +217,9 @@ export default function CollectionPage() {
                     NFT Collection
                   </h1>
                   <p className="text-gray-600 mt-1">
-                    {totalMinted} NFT{totalMinted !== 1 ? 's' : ''} minted on 0G Chain
+                    {matched !== totalMinted
+                      ? `${matched} of ${totalMinted} NFTs match`
+                      : `${totalMinted} NFT${totalMinted !== 1 ? 's' : ''} minted on 0G Chain`}
                   </p>
                   <a
                     href={`https://chainscan-galileo.0g.ai/address/${contractConfig.address}`}
@@ -221,6 +275,134 @@ export default function CollectionPage() {
               </div>
             </div>
 
+            {/* Search, Sort & Filters */}
+            <div className="bg-white/90 backdrop-blur-xl rounded-2xl p-4 mb-8 shadow-lg">
+              <div className="flex flex-col md:flex-row gap-3">
+                <form onSubmit={applySearch} className="relative flex-1">
+                  <Search size={18} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+                  <input
+                    key={query.q || ''}
+                    name="q"
+                    type="search"
+                    defaultValue={query.q}
+                    placeholder="Search title, description or prompt"
+                    className="w-full pl-10 pr-4 py-2 rounded-lg bg-gray-100 text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-gray-300"
+                  />
+                </form>
+
+                <div className="flex items-center gap-3">
+                  <select
+                    value={query.sort || 'newest'}
+                    onChange={(e) => updateQuery({ sort: e.target.value as CollectionQuery['sort'] })}
+                    className="px-3 py-2 rounded-lg bg-gray-100 text-sm text-gray-700 focus:outline-none"
+                    title="Sort"
+                  >
+                    {COLLECTION_SORTS.map(option => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+
+                  <button
+                    onClick={() => setShowFilters(!showFilters)}
+                    className={`flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
+                      showFilters ? 'bg-gray-900 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    }`}
+                  >
+                    <SlidersHorizontal size={16} />
+                    Filters
+                    {filterCount > 0 && (
+                      <span className={`px-1.5 rounded-full text-xs ${showFilters ? 'bg-white text-gray-900' : 'bg-gray-900 text-white'}`}>
+                        {filterCount}
+                      </span>
+                    )}
+                  </button>
+                </div>
+              </div>
+
+              {showFilters && (
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3 mt-4 pt-4 border-t border-gray-200">
+                  <label className="text-xs font-medium text-gray-500">
+                    Style
+                    <select
+                      value={query.style || ''}
+                      onChange={(e) => updateQuery({ style: e.target.value || undefined })}
+                      className="mt-1 w-full px-3 py-2 rounded-lg bg-gray-100 text-sm text-gray-700 focus:outline-none"
+                    >
+                      <option value="">All styles</option>
+                      {styleOptions.map(style => (
+                        <option key={style} value={style}>{style}</option>
+                      ))}
+                    </select>
+                  </label>
+
+                  <label className="text-xs font-medium text-gray-500">
+                    Creator
+                    <input
+                      key={query.creator || ''}
+                      defaultValue={query.creator}
+                      placeholder="0x..."
+                      onBlur={(e) => applyCreator(e.target.value)}
+                      onKeyDown={(e) => e.key === 'Enter' && applyCreator(e.currentTarget.value)}
+                      className={`mt-1 w-full px-3 py-2 rounded-lg bg-gray-100 text-sm text-gray-900 font-mono focus:outline-none ${
+                        creatorError ? 'ring-2 ring-red-300' : ''
+                      }`}
+                    />
+                    {creatorError && <span className="block mt-1 text-red-600 font-normal">{creatorError}</span>}
+                  </label>
+
+                  <label className="text-xs font-medium text-gray-500">
+                    Minted from
+                    <input
+                      type="date"
+                      value={query.from || ''}
+                      max={query.to}
+                      onChange={(e) => updateQuery({ from: e.target.value || undefined })}
+                      className="mt-1 w-full px-3 py-2 rounded-lg bg-gray-100 text-sm text-gray-700 focus:outline-none"
+                    />
+                  </label>
+
+                  <label className="text-xs font-medium text-gray-500">
+                    Minted to
+                    <input
+                      type="date"
+                      value={query.to || ''}
+                      min={query.from}
+                      onChange={(e) => updateQuery({ to: e.target.value || undefined })}
+                      className="mt-1 w-full px-3 py-2 rounded-lg bg-gray-100 text-sm text-gray-700 focus:outline-none"
+                    />
+                  </label>
+
+                  {Object.entries(traitOptions).map(([type, values]) => (
+                    <label key={type} className="text-xs font-medium text-gray-500">
+                      {type}
+                      <select
+                        value={query.traits?.[type] || ''}
+                        onChange={(e) => updateTrait(type, e.target.value)}
+                        className="mt-1 w-full px-3 py-2 rounded-lg bg-gray-100 text-sm text-gray-700 focus:outline-none"
+                      >
+                        <option value="">Any</option>
+                        {values.map(value => (
+                          <option key={value} value={value}>{value}</option>
+                        ))}
+                      </select>
+                    </label>
+                  ))}
+
+                  {filterCount > 0 && (
+                    <div className="flex items-end">
+                      <button
+                        onClick={clearFilters}
+                        className="flex items-center gap-1 px-3 py-2 text-sm text-gray-600 hover:text-gray-900 transition-colors"
+                      >
+                        <X size={16} />
+                        Clear filters
+                      </button>
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+
             {/* Loading State */}
             {loading && (
               <div className="flex flex-col items-center justify-center py-20">
@@ -242,8 +424,24 @@ export default function CollectionPage() {
               </div>
             )}
 
+            {/* No Matches */}
+            {!loading && !error && nfts.length === 0 && totalMinted > 0 && (
+              <div className="bg-white/90 backdrop-blur-xl rounded-2xl p-12 text-center shadow-lg">
+                <div className="text-6xl mb-4">🔍</div>
+                <h2 className="text-2xl font-bold text-gray-900 mb-2">No Matching NFTs</h2>
+                <p className="text-gray-600 mb-6">Try a different search or fewer filters.</p>
+                <button
+                  onClick={() => updateQuery({ q: undefined, style: undefined, creator: undefined, from: undefined, to: undefined, traits: undefined })}
+                  className="px-6 py-3 rounded-xl font-medium text-white transition-colors"
+                  style={{ backgroundColor: '#36454F' }}
+                >
+                  Show All NFTs
+                </button>
+              </div>
+            )}
+
             {/* Empty State */}
-            {!loading && !error && nfts.length === 0 && (
+            {!loading && !error && nfts.length === 0 && totalMinted === 0 && (
               <div className="bg-white/90 backdrop-blur-xl rounded-2xl p-12 text-center shadow-lg">
                 <div className="text-6xl mb-4">🎨</div>
                 <h2 className="text-2xl font-bold text-gray-900 mb-2">No NFTs Yet</h2>
@@ -261,17 +459,17 @@ export default function CollectionPage() {
 
             {/* Grid View */}
             {!loading && !error && nfts.length > 0 && viewMode === 'grid' && (
-              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6 items-start">
                 {nfts.map((nft, index) => (
                   <motion.div
                     key={nft.tokenId}
                     initial={{ opacity: 0, y: 20 }}
                     animate={{ opacity: 1, y: 0 }}
-                    transition={{ delay: index * 0.05 }}
+                    transition={{ delay: (index % COLLECTION_PAGE_SIZE) * 0.05 }}
                     className="bg-white rounded-xl overflow-hidden shadow-lg hover:shadow-xl transition-all group"
                   >
                     {/* Image */}
-                    <div className="relative aspect-square bg-gray-100">
+                    <div className="relative bg-gray-100" style={{ aspectRatio: getCssAspectRatio(nft) }}>
                       {nft.imageUrl ? (
                         <Image
                           src={nft.imageUrl}
@@ -292,6 +490,32 @@ export default function CollectionPage() {
                           #{nft.tokenId}
                         </span>
                       </div>
+
+                      {/* Storage Verification */}
+                      {nft.imageHash && (
+                        <div className="absolute top-3 right-3">
+                          <VerifiedBadge root={nft.imageHash} tokenId={nft.tokenId} />
+                        </div>
+                      )}
+
+                      {/* Original Sketch */}
+                      {nft.originalSketchHash && (
+                        <a
+                          href={getStorageUrl(nft.originalSketchHash)}
+                          target="_blank"
+                          rel="noreferrer"
+                          className="absolute bottom-3 right-3 w-14 h-14 rounded-lg overflow-hidden border-2 border-white shadow-md bg-white"
+                          title="Original sketch"
+                        >
+                          <Image
+                            src={getStorageUrl(nft.originalSketchHash)}
+                            alt="Original sketch"
+                            fill
+                            className="object-cover"
+                            sizes="56px"
+                          />
+                        </a>
+                      )}
                     </div>
 
                     {/* Content */}
@@ -302,19 +526,29 @@ export default function CollectionPage() {
                       <p className="text-sm text-gray-500 mt-1 truncate">
                         {nft.style}
                       </p>
+                      {nft.originalSketchHash && (
+                        <a
+                          href={getStorageUrl(nft.originalSketchHash)}
+                          target="_blank"
+                          rel="noreferrer"
+                          className="inline-flex items-center gap-1 text-xs text-gray-600 hover:text-gray-900 mt-1"
+                          title={nft.originalSketchHash}
+                        >
+                          <PenTool size={12} />
+                          From sketch {nft.originalSketchHash.slice(0, 10)}...
+                        </a>
+                      )}
 
                       <div className="flex items-center justify-between mt-3 pt-3 border-t border-gray-100">
                         <span className="text-xs text-gray-500">
                           {formatDate(nft.createdAt)}
                         </span>
-                        <a
-                          href={getTokenExplorerUrl(nft.tokenId)}
-                          target="_blank"
-                          rel="noreferrer"
+                        <Link
+                          href={`/token/${nft.tokenId}`}
                           className="text-xs text-blue-600 hover:text-blue-700 flex items-center gap-1"
                         >
-                          View <ExternalLink size={12} />
-                        </a>
+                          View <ChevronRight size={12} />
+                        </Link>
                       </div>
                     </div>
                   </motion.div>
@@ -351,7 +585,7 @@ export default function CollectionPage() {
                         key={nft.tokenId}
                         initial={{ opacity: 0 }}
                         animate={{ opacity: 1 }}
-                        transition={{ delay: index * 0.03 }}
+                        transition={{ delay: (index % COLLECTION_PAGE_SIZE) * 0.03 }}
                         className="hover:bg-gray-50 transition-colors"
                       >
                         <td className="px-6 py-4">
@@ -371,10 +605,28 @@ export default function CollectionPage() {
                               )}
                             </div>
                             <div>
-                              <p className="font-medium text-gray-900">
+                              <p className="font-medium text-gray-900 flex items-center gap-2">
                                 {nft.metadata?.name || `SketchNFT #${nft.tokenId}`}
+                                {nft.imageHash && (
+                                  <VerifiedBadge root={nft.imageHash} tokenId={nft.tokenId} className="bg-gray-100" />
+                                )}
+                              </p>
+                              <p className="text-xs text-gray-500">
+                                Token #{nft.tokenId}
+                                {nft.originalSketchHash && (
+                                  <>
+                                    {' · '}
+                                    <a
+                                      href={getStorageUrl(nft.originalSketchHash)}
+                                      target="_blank"
+                                      rel="noreferrer"
+                                      className="hover:text-gray-900"
+                                    >
+                                      Sketch
+                                    </a>
+                                  </>
+                                )}
                               </p>
-                              <p className="text-xs text-gray-500">Token #{nft.tokenId}</p>
                             </div>
                           </div>
                         </td>
@@ -394,14 +646,12 @@ export default function CollectionPage() {
                           </span>
                         </td>
                         <td className="px-6 py-4 text-right">
-                          <a
-                            href={getTokenExplorerUrl(nft.tokenId)}
-                            target="_blank"
-                            rel="noreferrer"
+                          <Link
+                            href={`/token/${nft.tokenId}`}
                             className="inline-flex items-center gap-1 px-3 py-1.5 bg-gray-900 text-white text-xs font-medium rounded-lg hover:bg-gray-800 transition-colors"
                           >
-                            View <ExternalLink size={12} />
-                          </a>
+                            View <ChevronRight size={12} />
+                          </Link>
                         </td>
                       </motion.tr>
                     ))}
@@ -409,6 +659,24 @@ export default function CollectionPage() {
                 </table>
               </div>
             )}
+
+            {/* Infinite Scroll */}
+            {!loading && !error && nfts.length > 0 && (
+              <div ref={sentinelRef} className="flex flex-col items-center justify-center py-8">
+                {loadingMore && <Loader2 className="w-8 h-8 text-gray-400 animate-spin" />}
+                {loadMoreError && (
+                  <button
+                    onClick={loadMore}
+                    className="px-4 py-2 bg-white/90 text-sm text-red-600 rounded-lg shadow hover:bg-white transition-colors"
+                  >
+                    Failed to load more - Try Again
+                  </button>
+                )}
+                {!nextCursor && nfts.length > COLLECTION_PAGE_SIZE && (
+                  <p className="text-sm text-gray-600">All {matched} NFTs loaded</p>
+                )}
+              </div>
+            )}
           </div>
         </main>
       </div>
@@ -1,16 +1,34 @@
 'use client';
 
-import { useState, useRef, useCallback, useEffect } from 'react';
+import { useState, useRef, useCallback, useEffect, useMemo } from 'react';
 import { motion } from 'framer-motion';
+import { ethers } from 'ethers';
 import { useAccount } from 'wagmi';
 import { useEthersSigner } from '@/lib/hooks/useEthersSigner';
-import { Rocket, Layers, ArrowRight, Database, Sparkles, Palette, Users, Camera, Upload, X } from 'lucide-react';
+import { Rocket, Layers, ArrowRight, Database, Sparkles, Palette, Users, Camera, Upload, X, Dices } from 'lucide-react';
 import Image from 'next/image';
 import { Header } from '@/components/Header';
 import { NFTCard } from '@/components/NFTCard';
-import { uploadImage, uploadMetadata, createMetadata, getStorageUrl } from '@/lib/services/storageService';
-import { uploadWithCommitment, ZGUploadProgress } from '@/lib/services/zgStorageService';
-import { mintNFT, batchMintNFTs, getExplorerUrl } from '@/lib/services/contractService';
+import { RegenerateModal } from '@/components/RegenerateModal';
+import { MetadataModal } from '@/components/MetadataModal';
+import { TraitSchemaEditor } from '@/components/TraitSchemaEditor';
+import { RarityPanel } from '@/components/RarityPanel';
+import { CostPanel } from '@/components/CostPanel';
+import { UsagePanel } from '@/components/UsagePanel';
+import { createMetadata, getStorageUrl, isMockStored, NFTMetadata } from '@/lib/services/storageService';
+import { getUploadSize, uploadBatchWithCommitment, uploadWithCommitment, ZGQuoteRequest, ZGUploadProgress } from '@/lib/services/zgStorageService';
+import { mintNFT, batchMintNFTs, getExplorerUrl, MINT_BATCH_SIZE } from '@/lib/services/contractService';
+import { computeRaritySummary, DEFAULT_TRAIT_SCHEMA } from '@/lib/services/traitService';
+import { AspectRatio, ASPECT_RATIO_LABELS, GenerationConfig, ImageResolution, ItemTrait, TraitSchema } from '@/lib/types';
+import type {
+  JobItemEvent,
+  JobItemView,
+  JobSnapshot,
+  JobSnapshotEvent,
+  JobStatus,
+  JobStatusEvent,
+  RegenerateItemOptions,
+} from '@/lib/services/jobs/types';
 
 // Types
 interface NFTImage {
@@ -25,6 +43,16 @@ interface NFTImage {
   status: 'pending' | 'generating' | 'completed' | 'failed' | 'uploading' | 'minting' | 'minted';
   txHash?: string;
   tokenId?: number;
+  aspectRatio?: AspectRatio;
+  // Actual pixel size reported by the image API
+  width?: number;
+  height?: number;
+  seed?: number;
+  providerName?: string; // Image provider, recorded as the metadata Generator
+  historyCount?: number; // Previous versions kept by the job for revert
+  traits?: ItemTrait[];
+  // Metadata edited in the inspector - replaces the generated title/description/attributes
+  metadataEdits?: Pick<NFTMetadata, 'name' | 'description' | 'attributes'>;
 }
 
 enum CollectionStatus {
@@ -35,10 +63,66 @@ enum CollectionStatus {
   COMPLETED = 'completed',
 }
 
-enum ImageResolution {
-  RES_1K = '1K',
-  RES_2K = '2K',
-  RES_4K = '4K',
+// localStorage key holding the active generation job id
+const JOB_STORAGE_KEY = 'sketchnft:generation-job';
+// localStorage key holding { jobId, root } of the collection's uploaded sketch
+const SKETCH_ROOT_STORAGE_KEY = 'sketchnft:sketch-root';
+
+const GENERATION_STATUSES: NFTImage['status'][] = ['pending', 'generating', 'completed', 'failed'];
+// Settled items - the worker rejects regenerating one still pending or generating
+const REGENERABLE_STATUSES: NFTImage['status'][] = ['completed', 'failed'];
+
+// Merge a server job item into a gallery entry, keeping upload/mint state the browser owns
+function mergeJobItem(existing: NFTImage | undefined, item: JobItemView, config?: GenerationConfig): NFTImage {
+  if (existing && !GENERATION_STATUSES.includes(existing.status)) return existing;
+
+  return {
+    ...existing,
+    id: item.id,
+    url: item.imageUrl || existing?.url || '',
+    prompt: item.prompt,
+    style: config?.style ?? existing?.style ?? '',
+    aspectRatio: config?.aspectRatio ?? existing?.aspectRatio,
+    title: item.title,
+    description: item.description,
+    width: item.width,
+    height: item.height,
+    seed: item.seed,
+    providerName: item.providerName,
+    historyCount: item.historyCount,
+    traits: item.traits,
+    status: item.status,
+  };
+}
+
+// Shown in the metadata preview until the image is uploaded and has a root
+const IMAGE_ROOT_PLACEHOLDER = '<image-root>';
+
+// Sketch root stored for a job, if it was already uploaded
+function getStoredSketchRoot(jobId: string | null): string | null {
+  if (!jobId) return null;
+  try {
+    const stored = JSON.parse(localStorage.getItem(SKETCH_ROOT_STORAGE_KEY) || 'null');
+    return stored?.jobId === jobId ? stored.root : null;
+  } catch {
+    return null;
+  }
+}
+
+// Metadata JSON for an NFT, including edits made in the inspector
+function buildMetadata(nft: NFTImage, imageHash: string, sketchHash?: string): NFTMetadata {
+  const metadata = createMetadata(
+    nft.title || 'AI NFT',
+    nft.description || 'AI-generated NFT on 0G Chain',
+    imageHash,
+    nft.style,
+    nft.prompt,
+    nft.width && nft.height ? { width: nft.width, height: nft.height } : undefined,
+    nft.traits,
+    sketchHash,
+    nft.providerName
+  );
+  return { ...metadata, ...nft.metadataEdits };
 }
 
 const STYLES = [
@@ -62,9 +146,24 @@ export default function GeneratePage() {
   const [style, setStyle] = useState(STYLES[6]); // Anime Cell Shaded
   const [count, setCount] = useState(6);
   const [resolution, setResolution] = useState<ImageResolution>(ImageResolution.RES_1K);
+  const [aspectRatio, setAspectRatio] = useState<AspectRatio>(AspectRatio.SQUARE);
+  // Trait system - off by default, variations are then left to the model
+  const [useTraits, setUseTraits] = useState(false);
+  const [traitSchema, setTraitSchema] = useState<TraitSchema>(DEFAULT_TRAIT_SCHEMA);
+  const [traitSchemaError, setTraitSchemaError] = useState<string | null>(null);
+  // Schema of the job shown in the gallery (for target probabilities)
+  const [collectionTraitSchema, setCollectionTraitSchema] = useState<TraitSchema | undefined>();
   const [generatedImages, setGeneratedImages] = useState<NFTImage[]>([]);
   const [collectionStatus, setCollectionStatus] = useState<CollectionStatus>(CollectionStatus.IDLE);
   const [generationProgress, setGenerationProgress] = useState(0);
+  // Server-side generation job - restored from localStorage so a reload resumes it
+  const [jobId, setJobId] = useState<string | null>(() =>
+    typeof window === 'undefined' ? null : localStorage.getItem(JOB_STORAGE_KEY)
+  );
+  // 0G root of the job's original sketch - uploaded once, reused for every mint
+  const [sketchRoot, setSketchRoot] = useState<string | null>(() =>
+    typeof window === 'undefined' ? null : getStoredSketchRoot(localStorage.getItem(JOB_STORAGE_KEY))
+  );
 
   // Camera state
   const [isCameraOpen, setIsCameraOpen] = useState(false);
@@ -78,6 +177,11 @@ export default function GeneratePage() {
   const [mintStep, setMintStep] = useState<'idle' | 'storage' | 'minting'>('idle');
   const [mintProgress, setMintProgress] = useState<string>('');
 
+  // Item open in the regenerate dialog
+  const [regeneratingNftId, setRegeneratingNftId] = useState<string | null>(null);
+  // Item open in the metadata inspector
+  const [inspectingNftId, setInspectingNftId] = useState<string | null>(null);
+
   // Start camera
   const startCamera = useCallback(async () => {
     setCameraError(null);
@@ -144,59 +248,110 @@ export default function GeneratePage() {
     setUploadedImageFile(null);
   };
 
-  // Generate single NFT with parallel image + metadata generation
-  const generateItem = async (
-    id: string,
-    itemPrompt: string,
-    itemStyle: string,
-    referenceImage?: { mimeType: string; data: string }
-  ): Promise<string | null> => {
-    try {
-      // Update status to generating
-      setGeneratedImages(prev => prev.map(img =>
-        img.id === id ? { ...img, status: 'generating' } : img
-      ));
+  // Move the collection out of GENERATING once the job finishes (never clobbers minting state)
+  const syncCollectionStatus = useCallback((status: JobStatus) => {
+    const isFinished = status === 'completed' || status === 'failed';
+    setCollectionStatus(prev =>
+      isFinished
+        ? (prev === CollectionStatus.GENERATING || prev === CollectionStatus.IDLE ? CollectionStatus.READY_TO_MINT : prev)
+        : CollectionStatus.GENERATING
+    );
+  }, []);
 
-      // Parallelize Image and Metadata generation
-      const [imageResponse, metadataResponse] = await Promise.all([
-        fetch('/api/generate-image', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            prompt: itemPrompt,
-            style: itemStyle,
-            resolution,
-            referenceImage // Pass reference image if provided
-          }),
-        }).then(res => res.json()),
-        fetch('/api/generate-metadata', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ prompt: itemPrompt, style: itemStyle }),
-        }).then(res => res.json())
-      ]);
-
-      const imageUrl = imageResponse.imageUrl || '';
+  // Replace the gallery with a server job snapshot, keeping mint state we already have
+  const applyJobSnapshot = useCallback((job: JobSnapshot) => {
+    setGeneratedImages(prev => job.items.map(item =>
+      mergeJobItem(prev.find(img => img.id === item.id), item, job.config)
+    ));
+    setGenerationProgress(job.progress);
+    setCollectionTraitSchema(job.config.traits);
+    syncCollectionStatus(job.status);
+  }, [syncCollectionStatus]);
 
-      setGeneratedImages(prev => prev.map(img =>
-        img.id === id ? {
-          ...img,
-          status: imageResponse.success ? 'completed' as const : 'failed' as const,
-          url: imageUrl,
-          title: metadataResponse.title || `${itemStyle} Artifact`,
-          description: metadataResponse.description || 'AI-generated NFT'
-        } : img
-      ));
+  // Sizes of everything Launch will upload and mint, for the cost estimate
+  const costRequest = useMemo((): ZGQuoteRequest | null => {
+    if (collectionStatus !== CollectionStatus.READY_TO_MINT) return null;
+
+    const pending = generatedImages.filter(nft => nft.status === 'completed');
+    if (pending.length === 0) return null;
 
-      // Return the generated image URL for reference extraction
-      return imageUrl;
+    try {
+      return {
+        // Roots have a fixed length, so a placeholder gives the final metadata size
+        nfts: pending.map(nft => ({
+          id: nft.id,
+          imageSize: getUploadSize(nft.url, 'image'),
+          metadataSize: getUploadSize(buildMetadata(nft, ethers.ZeroHash, sketchRoot || undefined), 'json'),
+          style: nft.style,
+          prompt: nft.prompt,
+        })),
+        address,
+      };
     } catch (error) {
-      setGeneratedImages(prev => prev.map(img =>
-        img.id === id ? { ...img, status: 'failed' } : img
-      ));
+      console.warn('[App] Cannot size pending uploads:', error);
       return null;
     }
-  };
+  }, [collectionStatus, generatedImages, sketchRoot, address]);
+
+  // Rarity over generated items that carry traits
+  const raritySummary = useMemo(
+    () => computeRaritySummary(generatedImages.map(nft => nft.traits), collectionTraitSchema),
+    [generatedImages, collectionTraitSchema]
+  );
+
+  // Follow the active job over Server-Sent Events - drives the progress bar and card states
+  useEffect(() => {
+    if (!jobId) return;
+
+    const source = new EventSource(`/api/jobs/${jobId}/events`);
+
+    source.addEventListener('snapshot', (e) => {
+      const { job }: JobSnapshotEvent = JSON.parse((e as MessageEvent).data);
+      applyJobSnapshot(job);
+      if (job.status === 'completed' || job.status === 'failed') source.close();
+    });
+
+    source.addEventListener('item', (e) => {
+      const event: JobItemEvent = JSON.parse((e as MessageEvent).data);
+      console.log(`[App] Item ${event.item.index + 1}: ${event.kind}${event.item.error ? ` (${event.item.error})` : ''}`);
+      setGeneratedImages(prev => prev.map(img => img.id === event.item.id ? mergeJobItem(img, event.item) : img));
+      setGenerationProgress(event.progress);
+    });
+
+    source.addEventListener('job', (e) => {
+      const event: JobStatusEvent = JSON.parse((e as MessageEvent).data);
+      setGenerationProgress(event.progress);
+      syncCollectionStatus(event.status);
+
+      if (event.status === 'completed' || event.status === 'failed') {
+        console.log(`[App] Job ${event.jobId} ${event.status}: ${event.completedCount} generated, ${event.failedCount} failed`);
+        source.close();
+      }
+    });
+
+    source.onerror = () => {
+      // EventSource reconnects on its own; CLOSED means the server rejected the job id
+      if (source.readyState === EventSource.CLOSED) {
+        console.warn(`[App] Job ${jobId} is no longer available`);
+        localStorage.removeItem(JOB_STORAGE_KEY);
+        setJobId(null);
+      }
+    };
+
+    return () => source.close();
+  }, [jobId, applyJobSnapshot, syncCollectionStatus]);
+
+  // Watch runs started from other tabs
+  useEffect(() => {
+    const handleStorage = (e: StorageEvent) => {
+      if (e.key === JOB_STORAGE_KEY && e.newValue) {
+        setJobId(e.newValue);
+        setSketchRoot(getStoredSketchRoot(e.newValue));
+      }
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
 
   const handleGenerate = async () => {
     if (!uploadedImage) {
@@ -204,67 +359,52 @@ export default function GeneratePage() {
       return;
     }
 
+    if (useTraits && traitSchemaError) {
+      alert(`Fix the trait schema first: ${traitSchemaError}`);
+      return;
+    }
+
     try {
       setCollectionStatus(CollectionStatus.GENERATING);
       setGenerationProgress(0);
 
-      console.log(`[App] Generating ${count} NFTs from uploaded image...`);
+      console.log(`[App] Starting server job for ${count} NFTs from uploaded image...`);
 
-      // Extract base64 data from uploaded image for initial reference
+      // Extract base64 data from uploaded image - the worker uses it for the FIRST generation
       const uploadedBase64Match = uploadedImage.match(/^data:([^;]+);base64,(.+)$/);
-      let initialReferenceImageData: { mimeType: string; data: string } | undefined;
-
-      if (uploadedBase64Match) {
-        initialReferenceImageData = {
-          mimeType: uploadedBase64Match[1],
-          data: uploadedBase64Match[2]
-        };
-        console.log('[App] Using uploaded image as reference for FIRST generation.');
-      }
+      const referenceImage = uploadedBase64Match
+        ? { mimeType: uploadedBase64Match[1], data: uploadedBase64Match[2] }
+        : undefined;
 
-      // Initialize placeholders
-      const newItems: NFTImage[] = Array.from({ length: count }, (_, i) => ({
-        id: `nft-${Date.now()}-${i}`,
-        url: '',
-        prompt: `${prompt} - variation ${i + 1}`,
+      const config: GenerationConfig = {
+        prompt,
         style,
-        status: 'pending' as const,
-      }));
-      setGeneratedImages(newItems);
-
-      // SEQUENTIAL GENERATION: First uses uploaded image, rest use first generated image
-      let referenceImageData: { mimeType: string; data: string } | undefined = initialReferenceImageData;
-
-      for (let i = 0; i < newItems.length; i++) {
-        const nft = newItems[i];
-
-        console.log(`[App] Generating NFT ${i + 1}/${count}${i === 0 ? ' (BASE from uploaded image)' : ' (using first generated)'}...`);
-
-        // Generate the item
-        const imageUrl = await generateItem(nft.id, nft.prompt, style, referenceImageData);
-
-        // After generating the FIRST image, extract it and use as reference for the rest
-        if (i === 0 && imageUrl) {
-          console.log('[App] Extracting first generated image as reference for remaining variations...');
-
-          const base64Match = imageUrl.match(/^data:([^;]+);base64,(.+)$/);
-          if (base64Match) {
-            referenceImageData = {
-              mimeType: base64Match[1],
-              data: base64Match[2]
-            };
-            console.log('[App] First generated image will be used as reference for consistency!');
-          } else {
-            console.warn('[App] Could not extract base64 data from first generated image');
-          }
-        }
+        count,
+        resolution,
+        aspectRatio,
+        traits: useTraits ? traitSchema : undefined,
+      };
 
-        // Update progress
-        setGenerationProgress(Math.round(((i + 1) / count) * 100));
+      const response = await fetch('/api/jobs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ config, referenceImage }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to start generation');
       }
 
-      setCollectionStatus(CollectionStatus.READY_TO_MINT);
-      console.log(`[App] Generation complete!`);
+      console.log(`[App] Job started: ${result.jobId}`);
+
+      // Remember the job so a reload re-attaches to it
+      localStorage.setItem(JOB_STORAGE_KEY, result.jobId);
+      localStorage.removeItem(SKETCH_ROOT_STORAGE_KEY);
+      applyJobSnapshot(result.job);
+      setJobId(result.jobId);
+      setSketchRoot(null);
 
     } catch (error) {
       console.error('[App] Generation failed:', error);
@@ -273,6 +413,113 @@ export default function GeneratePage() {
     }
   };
 
+  // Run a job item action and merge the returned item into the gallery
+  const runItemAction = async (nftId: string, action: 'regenerate' | 'revert', body: object) => {
+    if (!jobId) return;
+
+    const response = await fetch(`/api/jobs/${jobId}/items/${nftId}/${action}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    const result = await response.json();
+
+    if (!response.ok || !result.success) {
+      throw new Error(result.error || `Failed to ${action} item`);
+    }
+
+    setGeneratedImages(prev => prev.map(img => img.id === nftId ? mergeJobItem(img, result.item) : img));
+  };
+
+  const handleRegenerate = async (nftId: string, options: RegenerateItemOptions) => {
+    setRegeneratingNftId(null);
+
+    // A new image invalidates anything already uploaded for this item
+    setGeneratedImages(prev => prev.map(img =>
+      img.id === nftId
+        ? { ...img, url: '', title: undefined, imageHash: undefined, metadataHash: undefined, metadataEdits: undefined, status: 'generating' }
+        : img
+    ));
+
+    try {
+      console.log(`[App] Regenerating ${nftId}${options.seed !== undefined ? ` with seed ${options.seed}` : ''}...`);
+      await runItemAction(nftId, 'regenerate', options);
+    } catch (error) {
+      console.error('[App] Regeneration failed:', error);
+      alert(`Regeneration failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      setGeneratedImages(prev => prev.map(img => img.id === nftId ? { ...img, status: 'failed' } : img));
+    }
+  };
+
+  const handleRevert = async (nftId: string, attempt: number) => {
+    setRegeneratingNftId(null);
+    setGeneratedImages(prev => prev.map(img =>
+      img.id === nftId ? { ...img, imageHash: undefined, metadataHash: undefined, metadataEdits: undefined } : img
+    ));
+
+    try {
+      await runItemAction(nftId, 'revert', { attempt });
+    } catch (error) {
+      console.error('[App] Revert failed:', error);
+      alert(`Revert failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const regeneratingNft = generatedImages.find(nft => nft.id === regeneratingNftId);
+
+  const handleSaveMetadata = (nftId: string, metadata: NFTMetadata) => {
+    const { name, description, attributes } = metadata;
+    setGeneratedImages(prev => prev.map(img =>
+      img.id === nftId ? { ...img, metadataEdits: { name, description, attributes } } : img
+    ));
+    setInspectingNftId(null);
+  };
+
+  const inspectingNft = generatedImages.find(nft => nft.id === inspectingNftId);
+
+  /**
+   * Root of the collection's original sketch, uploading it on first use.
+   * Minting continues without provenance if the sketch is unavailable.
+   */
+  const getSketchRoot = async (upload: (dataUrl: string) => Promise<string | undefined>): Promise<string> => {
+    if (sketchRoot) return sketchRoot;
+    if (!jobId) return '';
+
+    try {
+      const response = await fetch(`/api/jobs/${jobId}/sketch`);
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Sketch unavailable');
+      }
+
+      console.log('[App] Uploading original sketch for provenance...');
+      const root = await upload(`data:${result.sketch.mimeType};base64,${result.sketch.data}`);
+      if (!root) throw new Error('Sketch upload failed');
+
+      console.log(`[App] ✓ Sketch uploaded: ${root}`);
+      localStorage.setItem(SKETCH_ROOT_STORAGE_KEY, JSON.stringify({ jobId, root }));
+      setSketchRoot(root);
+      return root;
+    } catch (error) {
+      console.warn('[App] Minting without sketch provenance:', error);
+      return '';
+    }
+  };
+
+  /**
+   * Mock-stored content only exists on this server - ask before putting its roots on chain
+   */
+  const confirmMockStorage = (roots: string[]): boolean => {
+    const mockRoots = roots.filter(root => root && isMockStored(root));
+    if (mockRoots.length === 0) return true;
+
+    console.warn('[App] ⚠️ Minting mock-stored content:', mockRoots);
+    return window.confirm(
+      `${mockRoots.length} file(s) are stored on this server only (mock, local or in-memory storage), not on 0G. ` +
+      'Tokens minted with them will point at content nobody else can fetch. Mint anyway?'
+    );
+  };
+
   const handleMint = async () => {
     if (!address || !signer) {
       alert('Please connect your wallet first!');
@@ -299,102 +546,90 @@ export default function GeneratePage() {
 
       console.log(`[App] Found ${completedNFTs.length} completed NFTs to mint`);
 
-      // STEP 1: Upload all images to 0G Storage in parallel
+      // Original sketch once for the whole collection
+      const sketchHash = await getSketchRoot(async (sketch) => (await uploadWithCommitment(signer, sketch, 'image')).root);
+
+      // STEP 1: Upload all images to 0G Storage in one batch
       console.log('[App] STEP 1: Uploading images to 0G Storage...');
-      const UPLOAD_BATCH_SIZE = 5;
       const imageUploadResults: { nft: NFTImage; hash: string }[] = [];
 
-      for (let i = 0; i < completedNFTs.length; i += UPLOAD_BATCH_SIZE) {
-        const batch = completedNFTs.slice(i, i + UPLOAD_BATCH_SIZE);
-        console.log(`[App] Uploading image batch ${Math.floor(i / UPLOAD_BATCH_SIZE) + 1}...`);
+      // Mark as uploading
+      const completedIds = new Set(completedNFTs.map(nft => nft.id));
+      setGeneratedImages(prev => prev.map(img =>
+        completedIds.has(img.id) ? { ...img, status: 'uploading' as const } : img
+      ));
+
+      const imageResults = await uploadBatchWithCommitment(
+        signer,
+        completedNFTs.map(nft => ({ id: nft.id, data: nft.url, type: 'image' as const }))
+      );
 
-        // Mark as uploading
-        batch.forEach(nft => {
+      // Collect successful uploads
+      completedNFTs.forEach(nft => {
+        // A file missing from the batch response counts as failed
+        const result = imageResults[nft.id];
+        if (result?.success && result.root) {
+          imageUploadResults.push({ nft, hash: result.root });
+          console.log(`[App] ✓ Image uploaded for ${nft.title}: ${result.root}`);
+        } else {
+          console.error(`[App] ✗ Failed to upload image for ${nft.title}: ${result?.error || 'no upload result'}`);
           setGeneratedImages(prev => prev.map(img =>
-            img.id === nft.id ? { ...img, status: 'uploading' as const } : img
+            img.id === nft.id ? { ...img, status: 'failed' as const } : img
           ));
-        });
-
-        // Upload in parallel
-        const batchResults = await Promise.all(
-          batch.map(async (nft) => {
-            const result = await uploadImage(nft.url);
-            return { nft, result };
-          })
-        );
-
-        // Collect successful uploads
-        batchResults.forEach(({ nft, result }) => {
-          if (result.success && result.hash) {
-            imageUploadResults.push({ nft, hash: result.hash });
-            console.log(`[App] ✓ Image uploaded for ${nft.title}: ${result.hash}`);
-          } else {
-            console.error(`[App] ✗ Failed to upload image for ${nft.title}`);
-            setGeneratedImages(prev => prev.map(img =>
-              img.id === nft.id ? { ...img, status: 'failed' as const } : img
-            ));
-          }
-        });
-      }
+        }
+      });
 
       console.log(`[App] Successfully uploaded ${imageUploadResults.length}/${completedNFTs.length} images`);
 
-      // STEP 2: Upload all metadata to 0G Storage
+      // STEP 2: Upload all metadata to 0G Storage in one batch
       console.log('[App] STEP 2: Uploading metadata to 0G Storage...');
       const metadataUploadResults: { nft: NFTImage; imageHash: string; metadataHash: string }[] = [];
 
-      for (let i = 0; i < imageUploadResults.length; i += UPLOAD_BATCH_SIZE) {
-        const batch = imageUploadResults.slice(i, i + UPLOAD_BATCH_SIZE);
-        console.log(`[App] Uploading metadata batch ${Math.floor(i / UPLOAD_BATCH_SIZE) + 1}...`);
-
-        const batchResults = await Promise.all(
-          batch.map(async ({ nft, hash }) => {
-            const metadata = createMetadata(
-              nft.title || 'AI NFT',
-              nft.description || 'AI-generated NFT on 0G Chain',
-              hash,
-              nft.style,
-              nft.prompt,
-              resolution
-            );
-
-            const result = await uploadMetadata(metadata);
-            return { nft, imageHash: hash, result };
-          })
-        );
-
-        // Collect successful uploads
-        batchResults.forEach(({ nft, imageHash, result }) => {
-          if (result.success && result.hash) {
-            metadataUploadResults.push({ nft, imageHash, metadataHash: result.hash });
-            console.log(`[App] ✓ Metadata uploaded for ${nft.title}: ${result.hash}`);
-
-            // Update NFT with hashes
-            setGeneratedImages(prev => prev.map(img =>
-              img.id === nft.id ? {
-                ...img,
-                imageHash: imageHash,
-                metadataHash: result.hash,
-                status: 'minting' as const
-              } : img
-            ));
-          } else {
-            console.error(`[App] ✗ Failed to upload metadata for ${nft.title}`);
-            setGeneratedImages(prev => prev.map(img =>
-              img.id === nft.id ? { ...img, status: 'failed' as const } : img
-            ));
-          }
-        });
-      }
+      const metadataResults = imageUploadResults.length > 0
+        ? await uploadBatchWithCommitment(
+          signer,
+          imageUploadResults.map(({ nft, hash }) => ({
+            id: nft.id,
+            data: buildMetadata(nft, hash, sketchHash),
+            type: 'json' as const,
+          }))
+        )
+        : {};
+
+      // Collect successful uploads
+      imageUploadResults.forEach(({ nft, hash: imageHash }) => {
+        const result = metadataResults[nft.id];
+        if (result?.success && result.root) {
+          metadataUploadResults.push({ nft, imageHash, metadataHash: result.root });
+          console.log(`[App] ✓ Metadata uploaded for ${nft.title}: ${result.root}`);
+
+          // Update NFT with hashes
+          setGeneratedImages(prev => prev.map(img =>
+            img.id === nft.id ? {
+              ...img,
+              imageHash: imageHash,
+              metadataHash: result.root,
+              status: 'minting' as const
+            } : img
+          ));
+        } else {
+          console.error(`[App] ✗ Failed to upload metadata for ${nft.title}: ${result?.error || 'no upload result'}`);
+          setGeneratedImages(prev => prev.map(img =>
+            img.id === nft.id ? { ...img, status: 'failed' as const } : img
+          ));
+        }
+      });
 
       console.log(`[App] Successfully uploaded ${metadataUploadResults.length}/${imageUploadResults.length} metadata`);
 
       // STEP 3: Mint NFTs on 0G Chain
       console.log('[App] STEP 3: Minting NFTs on 0G Chain...');
 
-      // Batch mint in groups of 5
-      const MINT_BATCH_SIZE = 5;
+      if (!confirmMockStorage([sketchHash, ...metadataUploadResults.flatMap(r => [r.imageHash, r.metadataHash])])) {
+        throw new Error('Minting cancelled - content is only in mock storage');
+      }
 
+      // Batch mint in groups of MINT_BATCH_SIZE
       for (let i = 0; i < metadataUploadResults.length; i += MINT_BATCH_SIZE) {
         const batch = metadataUploadResults.slice(i, i + MINT_BATCH_SIZE);
         console.log(`[App] Minting batch ${Math.floor(i / MINT_BATCH_SIZE) + 1} (${batch.length} NFTs)...`);
@@ -406,6 +641,7 @@ export default function GeneratePage() {
             metadataHash,
             style: nft.style,
             prompt: nft.prompt,
+            originalHash: sketchHash,
           }));
 
           // Execute batch mint
@@ -488,6 +724,12 @@ export default function GeneratePage() {
         console.log(`[0G Storage] ${progress.step}: ${progress.message}`);
       };
 
+      // Original sketch - only uploaded by the collection's first mint
+      if (!sketchRoot) setMintProgress('Uploading original sketch...');
+      const sketchHash = await getSketchRoot(async (sketch) =>
+        (await uploadWithCommitment(signer, sketch, 'image', onStorageProgress)).root
+      );
+
       // Step 1: Upload image to 0G Storage (FIRST SIGNATURE)
       console.log('[App] Uploading image to 0G Storage...');
       setMintProgress('Sign to upload image to 0G Storage...');
@@ -503,14 +745,7 @@ export default function GeneratePage() {
       console.log('[App] Uploading metadata to 0G Storage...');
       setMintProgress('Sign to upload metadata...');
 
-      const metadata = createMetadata(
-        nft.title || 'AI NFT',
-        nft.description || 'AI-generated NFT on 0G Chain',
-        imageResult.root,
-        nft.style,
-        nft.prompt,
-        resolution
-      );
+      const metadata = buildMetadata(nft, imageResult.root, sketchHash);
       const metadataJson = JSON.stringify(metadata, null, 2);
       const metadataResult = await uploadWithCommitment(signer, metadataJson, 'json', onStorageProgress);
 
@@ -531,12 +766,16 @@ export default function GeneratePage() {
       ));
 
       // Step 3: Mint NFT on 0G Chain (SECOND SIGNATURE)
+      if (!confirmMockStorage([sketchHash, imageResult.root, metadataResult.root])) {
+        throw new Error('Minting cancelled - content is only in mock storage');
+      }
+
       console.log('[App] === SIGNATURE 2: NFT Minting ===');
       setMintStep('minting');
       setMintProgress('Sign to mint NFT on blockchain...');
 
-      // mintNFT expects: (signer, imageHash, metadataHash, style, prompt)
-      const mintResult = await mintNFT(signer, imageResult.root, metadataResult.root, nft.style, nft.prompt);
+      // mintNFT expects: (signer, imageHash, metadataHash, style, prompt, originalHash)
+      const mintResult = await mintNFT(signer, imageResult.root, metadataResult.root, nft.style, nft.prompt, sketchHash);
 
       console.log(`[App] ✓ NFT minted! Token ID: ${mintResult.tokenId}, TX: ${mintResult.txHash}`);
 
@@ -776,6 +1015,31 @@ export default function GeneratePage() {
                         </div>
                       </div>
 
+                      {/* Canvas Format */}
+                      <div>
+                        <label className="flex items-center gap-2 text-sm font-medium mb-2 text-gray-900">
+                          <Layers className="w-4 h-4" style={{ color: '#36454F' }} />
+                          Canvas Format
+                        </label>
+                        <div className="relative">
+                          <select
+                            value={aspectRatio}
+                            onChange={(e) => setAspectRatio(e.target.value as AspectRatio)}
+                            className="w-full bg-gray-50 border border-gray-200 rounded-xl px-4 py-3 text-sm text-gray-900 focus:outline-none focus:ring-2 focus:border-transparent transition-all appearance-none cursor-pointer hover:bg-gray-100"
+                            style={{ paddingRight: '2.5rem' }}
+                          >
+                            {Object.values(AspectRatio).map((r) => (
+                              <option key={r} value={r} className="bg-white">{ASPECT_RATIO_LABELS[r]} ({r})</option>
+                            ))}
+                          </select>
+                          <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-4 text-gray-600">
+                            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                            </svg>
+                          </div>
+                        </div>
+                      </div>
+
                       {/* Count */}
                       <div>
                         <div className="flex justify-between items-center mb-3">
@@ -802,6 +1066,58 @@ export default function GeneratePage() {
                           Generates consistent characters sequentially
                         </p>
                       </div>
+
+                      {/* Resolution */}
+                      <div>
+                        <label className="text-sm font-medium mb-2 block text-gray-900">
+                          Resolution
+                        </label>
+                        <div className="flex bg-gray-100 rounded-xl p-1">
+                          {Object.values(ImageResolution).map((r) => (
+                            <button
+                              key={r}
+                              onClick={() => setResolution(r)}
+                              className={`flex-1 py-2 rounded-lg text-sm font-medium transition-colors ${
+                                resolution === r ? 'bg-white shadow-sm text-gray-900' : 'text-gray-500 hover:bg-gray-200'
+                              }`}
+                            >
+                              {r}
+                            </button>
+                          ))}
+                        </div>
+                        <p className="text-xs text-gray-500 mt-2">
+                          2K and 4K require a provider that supports them (Gemini)
+                        </p>
+                      </div>
+
+                      {/* Traits */}
+                      <div>
+                        <label className="flex items-center justify-between text-sm font-medium mb-2 text-gray-900 cursor-pointer">
+                          <span className="flex items-center gap-2">
+                            <Dices className="w-4 h-4" style={{ color: '#36454F' }} />
+                            Trait Layers
+                          </span>
+                          <input
+                            type="checkbox"
+                            checked={useTraits}
+                            onChange={(e) => setUseTraits(e.target.checked)}
+                            className="accent-[#36454F]"
+                          />
+                        </label>
+                        {useTraits ? (
+                          <TraitSchemaEditor
+                            schema={traitSchema}
+                            onChange={(schema, error) => {
+                              if (schema) setTraitSchema(schema);
+                              setTraitSchemaError(error);
+                            }}
+                          />
+                        ) : (
+                          <p className="text-xs text-gray-500">
+                            Enable to assign weighted traits to each NFT and record them as attributes
+                          </p>
+                        )}
+                      </div>
                     </div>
 
                     {/* Divider */}
@@ -809,6 +1125,9 @@ export default function GeneratePage() {
 
                     {/* Action Buttons Section */}
                     <div className="space-y-4">
+                      <CostPanel request={costRequest} />
+                      <UsagePanel refreshKey={`${collectionStatus}:${generatedImages.filter(img => img.status === 'completed').length}`} />
+
                       {/* Single Action Button */}
                       <motion.button
                         onClick={generatedImages.length === 0 ? handleGenerate : handleMint}
@@ -885,7 +1204,7 @@ export default function GeneratePage() {
                             />
                           </div>
                           <p className="text-sm text-gray-600 text-center mt-3 font-medium">
-                            {Math.round((generationProgress / 100) * count)}/{count} NFTs Generated
+                            {generatedImages.filter(nft => nft.status === 'completed' || nft.status === 'failed').length}/{generatedImages.length} NFTs Generated
                           </p>
                         </motion.div>
                       )}
@@ -1055,11 +1374,16 @@ export default function GeneratePage() {
                         <span className="text-sm font-medium text-white">{generatedImages.filter(nft => nft.status === 'minted').length} minted</span>
                       </div>
                     </div>
+                    {raritySummary.total > 0 && (
+                      <div className="mt-4">
+                        <RarityPanel summary={raritySummary} />
+                      </div>
+                    )}
                   </div>
 
                   {/* Gallery Grid */}
                   <div className="p-8 pt-6">
-                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 items-start">
                       {generatedImages.map((nft, index) => (
                         <motion.div
                           key={nft.id}
@@ -1068,9 +1392,13 @@ export default function GeneratePage() {
                           transition={{ delay: index * 0.05 }}
                         >
                           <NFTCard
-                            nft={nft}
-                            onRegenerate={() => console.log('Regenerate', nft.id)}
-                            onViewMetadata={() => console.log('View metadata', nft.id)}
+                            nft={{
+                              ...nft,
+                              title: nft.metadataEdits?.name ?? nft.title,
+                              rarityRank: raritySummary.items.find(item => item.index === index)?.rank,
+                            }}
+                            onRegenerate={jobId && REGENERABLE_STATUSES.includes(nft.status) ? () => setRegeneratingNftId(nft.id) : undefined}
+                            onViewMetadata={() => setInspectingNftId(nft.id)}
                             onMint={() => handleMintSingle(nft.id)}
                             isMinting={mintingNftId === nft.id}
                             mintProgress={mintingNftId === nft.id ? mintProgress : undefined}
@@ -1087,6 +1415,30 @@ export default function GeneratePage() {
       </main>
       </div>
     </div>
+
+    {/* Regenerate Dialog */}
+    {jobId && regeneratingNft && (
+      <RegenerateModal
+        jobId={jobId}
+        nft={regeneratingNft}
+        onClose={() => setRegeneratingNftId(null)}
+        onRegenerate={(options) => handleRegenerate(regeneratingNft.id, options)}
+        onRevert={(attempt) => handleRevert(regeneratingNft.id, attempt)}
+      />
+    )}
+
+    {/* Metadata Inspector */}
+    {inspectingNft && (
+      <MetadataModal
+        metadata={buildMetadata(inspectingNft, inspectingNft.imageHash || IMAGE_ROOT_PLACEHOLDER, sketchRoot || undefined)}
+        editable={inspectingNft.status === 'completed'}
+        imagePending={!inspectingNft.imageHash}
+        tokenId={inspectingNft.tokenId}
+        metadataHash={inspectingNft.metadataHash}
+        onClose={() => setInspectingNftId(null)}
+        onSave={(metadata) => handleSaveMetadata(inspectingNft.id, metadata)}
+      />
+    )}
     </>
   );
 }
@@ -0,0 +1,294 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { motion } from 'framer-motion';
+import { Loader2, ExternalLink, ChevronRight, RefreshCw, Wallet } from 'lucide-react';
+import Image from 'next/image';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { useAccount } from 'wagmi';
+import { Header } from '@/components/Header';
+import { VerifiedBadge } from '@/components/VerifiedBadge';
+import { getProfile } from '@/lib/services/collectionService';
+import type { CollectionProfile, CollectionToken } from '@/lib/services/collection/types';
+import { parseDimensions } from '@/lib/services/imageUtils';
+
+type ProfileTab = 'owned' | 'created';
+
+export default function ProfilePage() {
+  const { address } = useParams<{ address: string }>();
+  const { address: connectedAddress } = useAccount();
+  const isOwnProfile = !!connectedAddress && connectedAddress.toLowerCase() === address.toLowerCase();
+
+  const [profile, setProfile] = useState<CollectionProfile | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [tab, setTab] = useState<ProfileTab>('owned');
+  const [style, setStyle] = useState<string | null>(null);
+
+  const loadProfile = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      setProfile(await getProfile(address));
+    } catch (err) {
+      console.error('Failed to load profile:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load profile');
+    } finally {
+      setLoading(false);
+    }
+  }, [address]);
+
+  useEffect(() => {
+    loadProfile();
+  }, [loadProfile]);
+
+  const selectTab = (next: ProfileTab) => {
+    setTab(next);
+    setStyle(null);
+  };
+
+  const tokens = profile ? profile[tab] : [];
+  const styles = profile ? (tab === 'owned' ? profile.ownedStyles : profile.createdStyles) : [];
+  const visibleTokens = style ? tokens.filter(token => token.style === style) : tokens;
+
+  const formatAddress = (value: string) => {
+    return `${value.slice(0, 6)}...${value.slice(-4)}`;
+  };
+
+  // Render non-square images at their own ratio (from the metadata Resolution attribute)
+  const getCssAspectRatio = (nft: CollectionToken) => {
+    const resolution = nft.metadata?.attributes?.find(a => a.trait_type === 'Resolution')?.value;
+    const dimensions = parseDimensions(resolution);
+    return dimensions ? `${dimensions.width} / ${dimensions.height}` : '1 / 1';
+  };
+
+  const formatDate = (timestamp?: number) => {
+    if (!timestamp) return '—';
+    return new Date(timestamp * 1000).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+    });
+  };
+
+  return (
+    <div className="min-h-screen relative">
+      {/* Background */}
+      <div className="absolute inset-0 z-0">
+        <div
+          className="absolute inset-0 bg-cover bg-center bg-no-repeat"
+          style={{ backgroundImage: 'url(/background2.jpg?v=4)' }}
+        />
+      </div>
+
+      {/* Content */}
+      <div className="relative z-10">
+        <Header />
+
+        <main className="pt-24 pb-12 px-6 lg:px-12">
+          <div className="max-w-7xl mx-auto">
+            {/* Header Section */}
+            <div className="bg-white/90 backdrop-blur-xl rounded-2xl p-6 mb-8 shadow-lg">
+              <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+                <div>
+                  <h1 className="text-3xl font-bold text-gray-900" style={{ fontFamily: 'var(--font-lilita)' }}>
+                    {isOwnProfile ? 'My NFTs' : formatAddress(address)}
+                  </h1>
+                  <p className="text-gray-600 mt-1 font-mono text-sm break-all flex items-center gap-2">
+                    <Wallet size={14} className="flex-shrink-0" />
+                    {address}
+                  </p>
+                  <a
+                    href={`https://chainscan-galileo.0g.ai/address/${address}`}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="inline-flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700 mt-2"
+                  >
+                    View on Explorer <ExternalLink size={14} />
+                  </a>
+                </div>
+
+                <div className="flex items-center gap-3">
+                  {/* Refresh Button */}
+                  <button
+                    onClick={loadProfile}
+                    disabled={loading}
+                    className="p-2 rounded-lg bg-gray-100 hover:bg-gray-200 transition-colors disabled:opacity-50"
+                    title="Refresh"
+                  >
+                    <RefreshCw size={20} className={loading ? 'animate-spin' : ''} />
+                  </button>
+
+                  {/* Owned / Created Toggle */}
+                  <div className="flex bg-gray-100 rounded-lg p-1">
+                    {(['owned', 'created'] as const).map(value => (
+                      <button
+                        key={value}
+                        onClick={() => selectTab(value)}
+                        className={`px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${
+                          tab === value ? 'bg-white shadow-sm text-gray-900' : 'text-gray-600 hover:bg-gray-200'
+                        }`}
+                      >
+                        {value === 'owned' ? 'Owned' : 'Created'}
+                        {profile && <span className="ml-1 text-gray-500">{profile[value].length}</span>}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              </div>
+
+              {/* Style Counts */}
+              {styles.length > 0 && (
+                <div className="flex flex-wrap items-center gap-2 mt-4 pt-4 border-t border-gray-200">
+                  <button
+                    onClick={() => setStyle(null)}
+                    className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${
+                      style === null ? 'bg-gray-900 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    }`}
+                  >
+                    All styles {tokens.length}
+                  </button>
+                  {styles.map(entry => (
+                    <button
+                      key={entry.style}
+                      onClick={() => setStyle(entry.style)}
+                      className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${
+                        style === entry.style ? 'bg-gray-900 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                      }`}
+                    >
+                      {entry.style} {entry.count}
+                    </button>
+                  ))}
+                  {tab === 'created' && (
+                    <Link
+                      href={`/collection?creator=${address}`}
+                      className="ml-auto text-xs text-blue-600 hover:text-blue-700"
+                    >
+                      Browse in collection
+                    </Link>
+                  )}
+                </div>
+              )}
+            </div>
+
+            {/* Loading State */}
+            {loading && (
+              <div className="flex flex-col items-center justify-center py-20">
+                <Loader2 className="w-12 h-12 text-gray-400 animate-spin mb-4" />
+                <p className="text-gray-600">Loading profile...</p>
+              </div>
+            )}
+
+            {/* Error State */}
+            {error && !loading && (
+              <div className="bg-red-50 border border-red-200 rounded-xl p-6 text-center">
+                <p className="text-red-600 mb-4">{error}</p>
+                <button
+                  onClick={loadProfile}
+                  className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
+                >
+                  Try Again
+                </button>
+              </div>
+            )}
+
+            {/* Empty State */}
+            {!loading && !error && tokens.length === 0 && (
+              <div className="bg-white/90 backdrop-blur-xl rounded-2xl p-12 text-center shadow-lg">
+                <div className="text-6xl mb-4">🎨</div>
+                <h2 className="text-2xl font-bold text-gray-900 mb-2">
+                  {tab === 'owned' ? 'No NFTs Owned' : 'No NFTs Created'}
+                </h2>
+                <p className="text-gray-600 mb-6">
+                  {isOwnProfile
+                    ? 'Turn a sketch into your first NFT.'
+                    : `This wallet has not ${tab === 'owned' ? 'collected' : 'minted'} any SketchNFTs yet.`}
+                </p>
+                <Link href={isOwnProfile ? '/generate' : '/collection'}>
+                  <button
+                    className="px-6 py-3 rounded-xl font-medium text-white transition-colors"
+                    style={{ backgroundColor: '#36454F' }}
+                  >
+                    {isOwnProfile ? 'Create NFT' : 'Browse Collection'}
+                  </button>
+                </Link>
+              </div>
+            )}
+
+            {/* Grid */}
+            {!loading && !error && visibleTokens.length > 0 && (
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6 items-start">
+                {visibleTokens.map((nft, index) => (
+                  <motion.div
+                    key={nft.tokenId}
+                    initial={{ opacity: 0, y: 20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ delay: Math.min(index, 20) * 0.05 }}
+                    className="bg-white rounded-xl overflow-hidden shadow-lg hover:shadow-xl transition-all group"
+                  >
+                    {/* Image */}
+                    <div className="relative bg-gray-100" style={{ aspectRatio: getCssAspectRatio(nft) }}>
+                      <Image
+                        src={nft.imageUrl}
+                        alt={nft.metadata?.name || `NFT #${nft.tokenId}`}
+                        fill
+                        className="object-cover group-hover:scale-105 transition-transform duration-300"
+                        sizes="(max-width: 640px) 100vw, (max-width: 1024px) 50vw, 25vw"
+                      />
+
+                      {/* Token ID Badge */}
+                      <div className="absolute top-3 left-3">
+                        <span className="px-2 py-1 bg-black/70 text-white text-xs font-medium rounded-full">
+                          #{nft.tokenId}
+                        </span>
+                      </div>
+
+                      {/* Storage Verification */}
+                      {nft.imageHash && (
+                        <div className="absolute top-3 right-3">
+                          <VerifiedBadge root={nft.imageHash} tokenId={nft.tokenId} />
+                        </div>
+                      )}
+                    </div>
+
+                    {/* Content */}
+                    <div className="p-4">
+                      <h3 className="font-semibold text-gray-900 truncate">
+                        {nft.metadata?.name || `SketchNFT #${nft.tokenId}`}
+                      </h3>
+                      <p className="text-sm text-gray-500 mt-1 truncate">
+                        {nft.style}
+                      </p>
+                      {tab === 'owned' && nft.creator.toLowerCase() !== address.toLowerCase() && (
+                        <Link
+                          href={`/profile/${nft.creator}`}
+                          className="inline-block text-xs text-gray-600 hover:text-gray-900 mt-1 font-mono"
+                        >
+                          by {formatAddress(nft.creator)}
+                        </Link>
+                      )}
+
+                      <div className="flex items-center justify-between mt-3 pt-3 border-t border-gray-100">
+                        <span className="text-xs text-gray-500">
+                          {formatDate(nft.createdAt)}
+                        </span>
+                        <Link
+                          href={`/token/${nft.tokenId}`}
+                          className="text-xs text-blue-600 hover:text-blue-700 flex items-center gap-1"
+                        >
+                          View <ChevronRight size={12} />
+                        </Link>
+                      </div>
+                    </div>
+                  </motion.div>
+                ))}
+              </div>
+            )}
+          </div>
+        </main>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,343 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { motion } from 'framer-motion';
+import { Loader2, ExternalLink, ArrowLeft, PenTool, Sparkles, ArrowRightLeft, Database } from 'lucide-react';
+import Image from 'next/image';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { Header } from '@/components/Header';
+import { VerifiedBadge } from '@/components/VerifiedBadge';
+import { getExplorerUrl, getTokenExplorerUrl } from '@/lib/services/contractService';
+import { getStorageUrl } from '@/lib/services/storageService';
+import { getToken } from '@/lib/services/collectionService';
+import type { TokenDetail } from '@/lib/services/collection/types';
+import { parseDimensions } from '@/lib/services/imageUtils';
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+export default function TokenPage() {
+  const { id } = useParams<{ id: string }>();
+  const tokenId = Number(id);
+
+  const [detail, setDetail] = useState<TokenDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadToken = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const result = await getToken(tokenId);
+      setDetail(result);
+      if (!result) setError(`Token #${id} has not been minted (or is not indexed yet)`);
+    } catch (err) {
+      console.error('Failed to load token:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load token');
+    } finally {
+      setLoading(false);
+    }
+  }, [id, tokenId]);
+
+  useEffect(() => {
+    loadToken();
+  }, [loadToken]);
+
+  const formatAddress = (address: string) => {
+    return `${address.slice(0, 6)}...${address.slice(-4)}`;
+  };
+
+  const formatDateTime = (timestamp?: number) => {
+    if (!timestamp) return '—';
+    return new Date(timestamp * 1000).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+    });
+  };
+
+  const token = detail?.token;
+  const name = token?.metadata?.name || `SketchNFT #${id}`;
+  const dimensions = parseDimensions(token?.metadata?.attributes?.find(a => a.trait_type === 'Resolution')?.value);
+  const aspectRatio = dimensions ? `${dimensions.width} / ${dimensions.height}` : '1 / 1';
+
+  const storageRoots = token
+    ? [
+        { label: 'Image', hash: token.imageHash },
+        { label: 'Metadata', hash: token.metadataHash },
+        { label: 'Original sketch', hash: token.originalSketchHash },
+      ].filter(root => root.hash)
+    : [];
+
+  const addressLink = (address: string) => (
+    <Link href={`/profile/${address}`} className="font-mono text-blue-600 hover:text-blue-700">
+      {formatAddress(address)}
+    </Link>
+  );
+
+  return (
+    <div className="min-h-screen relative">
+      {/* Background */}
+      <div className="absolute inset-0 z-0">
+        <div
+          className="absolute inset-0 bg-cover bg-center bg-no-repeat"
+          style={{ backgroundImage: 'url(/background2.jpg?v=4)' }}
+        />
+      </div>
+
+      {/* Content */}
+      <div className="relative z-10">
+        <Header />
+
+        <main className="pt-24 pb-12 px-6 lg:px-12">
+          <div className="max-w-7xl mx-auto">
+            <Link
+              href="/collection"
+              className="inline-flex items-center gap-2 mb-6 px-3 py-1.5 rounded-lg bg-white/90 text-sm text-gray-700 hover:text-gray-900 shadow transition-colors"
+            >
+              <ArrowLeft size={16} />
+              Collection
+            </Link>
+
+            {/* Loading State */}
+            {loading && (
+              <div className="flex flex-col items-center justify-center py-20">
+                <Loader2 className="w-12 h-12 text-gray-400 animate-spin mb-4" />
+                <p className="text-gray-600">Loading token...</p>
+              </div>
+            )}
+
+            {/* Error State */}
+            {error && !loading && (
+              <div className="bg-red-50 border border-red-200 rounded-xl p-6 text-center">
+                <p className="text-red-600 mb-4">{error}</p>
+                <button
+                  onClick={loadToken}
+                  className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
+                >
+                  Try Again
+                </button>
+              </div>
+            )}
+
+            {!loading && !error && token && detail && (
+              <motion.div
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                className="grid grid-cols-1 lg:grid-cols-2 gap-8 items-start"
+              >
+                {/* Artwork */}
+                <div className="space-y-4">
+                  <div className="relative bg-gray-100 rounded-2xl overflow-hidden shadow-lg" style={{ aspectRatio }}>
+                    <Image
+                      src={token.imageUrl}
+                      alt={name}
+                      fill
+                      className="object-contain"
+                      sizes="(max-width: 1024px) 100vw, 50vw"
+                      priority
+                    />
+                    {token.imageHash && (
+                      <div className="absolute top-3 right-3">
+                        <VerifiedBadge root={token.imageHash} tokenId={token.tokenId} />
+                      </div>
+                    )}
+                  </div>
+
+                  {token.originalSketchHash && (
+                    <div className="bg-white/90 backdrop-blur-xl rounded-2xl p-4 shadow-lg flex items-center gap-4">
+                      <a
+                        href={getStorageUrl(token.originalSketchHash)}
+                        target="_blank"
+                        rel="noreferrer"
+                        className="relative w-24 h-24 rounded-lg overflow-hidden border border-gray-200 bg-white flex-shrink-0"
+                        title="Original sketch"
+                      >
+                        <Image
+                          src={getStorageUrl(token.originalSketchHash)}
+                          alt="Original sketch"
+                          fill
+                          className="object-cover"
+                          sizes="96px"
+                        />
+                      </a>
+                      <div className="min-w-0">
+                        <p className="font-semibold text-gray-900 flex items-center gap-2">
+                          <PenTool size={16} />
+                          Original Sketch
+                        </p>
+                        <p className="text-xs text-gray-500 font-mono truncate mt-1" title={token.originalSketchHash}>
+                          {token.originalSketchHash}
+                        </p>
+                      </div>
+                    </div>
+                  )}
+                </div>
+
+                {/* Details */}
+                <div className="space-y-6">
+                  <div className="bg-white/90 backdrop-blur-xl rounded-2xl p-6 shadow-lg">
+                    <div className="flex items-center gap-2 mb-2">
+                      <span className="px-2 py-1 bg-black/80 text-white text-xs font-medium rounded-full">
+                        #{token.tokenId}
+                      </span>
+                      <span className="px-2 py-1 bg-gray-100 text-gray-700 text-xs rounded-full">
+                        {token.style}
+                      </span>
+                    </div>
+                    <h1 className="text-3xl font-bold text-gray-900" style={{ fontFamily: 'var(--font-lilita)' }}>
+                      {name}
+                    </h1>
+                    {token.metadata?.description && (
+                      <p className="text-gray-600 mt-2">{token.metadata.description}</p>
+                    )}
+
+                    {token.prompt && (
+                      <div className="mt-4 p-3 bg-gray-50 rounded-lg">
+                        <p className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-1">Prompt</p>
+                        <p className="text-sm text-gray-800">{token.prompt}</p>
+                      </div>
+                    )}
+
+                    <dl className="grid grid-cols-2 gap-4 mt-4 text-sm">
+                      <div>
+                        <dt className="text-gray-500">Creator</dt>
+                        <dd>{addressLink(token.creator)}</dd>
+                      </div>
+                      <div>
+                        <dt className="text-gray-500">Owner</dt>
+                        <dd>{token.owner ? addressLink(token.owner) : '—'}</dd>
+                      </div>
+                      <div>
+                        <dt className="text-gray-500">Minted</dt>
+                        <dd className="text-gray-900">{formatDateTime(token.createdAt)}</dd>
+                      </div>
+                      <div>
+                        <dt className="text-gray-500">Block</dt>
+                        <dd className="text-gray-900">{token.blockNumber}</dd>
+                      </div>
+                    </dl>
+
+                    <div className="flex flex-wrap gap-4 mt-4 pt-4 border-t border-gray-100">
+                      <a
+                        href={getTokenExplorerUrl(token.tokenId)}
+                        target="_blank"
+                        rel="noreferrer"
+                        className="inline-flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700"
+                      >
+                        View on Explorer <ExternalLink size={14} />
+                      </a>
+                      <a
+                        href={getExplorerUrl(token.txHash)}
+                        target="_blank"
+                        rel="noreferrer"
+                        className="inline-flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700"
+                      >
+                        Mint Transaction <ExternalLink size={14} />
+                      </a>
+                    </div>
+                  </div>
+
+                  {/* Attributes */}
+                  {token.metadata?.attributes && token.metadata.attributes.length > 0 && (
+                    <div className="bg-white/90 backdrop-blur-xl rounded-2xl p-6 shadow-lg">
+                      <h2 className="font-semibold text-gray-900 mb-3">Attributes</h2>
+                      <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                        {token.metadata.attributes.map(attribute => (
+                          <Link
+                            key={attribute.trait_type}
+                            href={`/collection?trait=${encodeURIComponent(`${attribute.trait_type}:${attribute.value}`)}`}
+                            className="p-3 bg-gray-50 rounded-lg hover:bg-gray-100 transition-colors"
+                          >
+                            <p className="text-xs text-gray-500 uppercase tracking-wider truncate">{attribute.trait_type}</p>
+                            <p className="text-sm font-medium text-gray-900 truncate">{String(attribute.value)}</p>
+                          </Link>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Storage Roots */}
+                  <div className="bg-white/90 backdrop-blur-xl rounded-2xl p-6 shadow-lg">
+                    <h2 className="font-semibold text-gray-900 mb-3 flex items-center gap-2">
+                      <Database size={18} />
+                      0G Storage
+                    </h2>
+                    <div className="space-y-2">
+                      {storageRoots.map(root => (
+                        <div key={root.label} className="flex items-center justify-between gap-3 text-sm">
+                          <span className="text-gray-500 flex-shrink-0">{root.label}</span>
+                          <a
+                            href={getStorageUrl(root.hash)}
+                            target="_blank"
+                            rel="noreferrer"
+                            className="font-mono text-xs text-blue-600 hover:text-blue-700 truncate"
+                            title={root.hash}
+                          >
+                            {root.hash}
+                          </a>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+
+                  {/* Provenance */}
+                  <div className="bg-white/90 backdrop-blur-xl rounded-2xl p-6 shadow-lg">
+                    <h2 className="font-semibold text-gray-900 mb-4">Provenance</h2>
+                    <ol className="relative border-l border-gray-200 ml-3 space-y-6">
+                      {token.originalSketchHash && (
+                        <li className="pl-6">
+                          <span className="absolute -left-3 flex items-center justify-center w-6 h-6 rounded-full bg-gray-100 ring-4 ring-white">
+                            <PenTool size={12} className="text-gray-600" />
+                          </span>
+                          <p className="text-sm font-medium text-gray-900">Sketch stored on 0G</p>
+                          <p className="text-xs text-gray-500 font-mono truncate">{token.originalSketchHash}</p>
+                        </li>
+                      )}
+
+                      {/* Transfers are missing only while the mint block is not indexed */}
+                      {(detail.transfers.length > 0
+                        ? detail.transfers
+                        : [{ from: ZERO_ADDRESS, to: token.creator, blockNumber: token.blockNumber, txHash: token.txHash, logIndex: 0 }]
+                      ).map(transfer => {
+                        const isMint = transfer.from === ZERO_ADDRESS;
+                        return (
+                          <li key={`${transfer.txHash}-${transfer.logIndex}`} className="pl-6">
+                            <span className="absolute -left-3 flex items-center justify-center w-6 h-6 rounded-full bg-gray-100 ring-4 ring-white">
+                              {isMint
+                                ? <Sparkles size={12} className="text-gray-600" />
+                                : <ArrowRightLeft size={12} className="text-gray-600" />}
+                            </span>
+                            <p className="text-sm font-medium text-gray-900">
+                              {isMint ? <>Minted to {addressLink(transfer.to)}</> : <>Transferred to {addressLink(transfer.to)}</>}
+                            </p>
+                            <p className="text-xs text-gray-500">
+                              {isMint ? formatDateTime(token.createdAt) : <>From {addressLink(transfer.from)}</>}
+                              {' · '}Block {transfer.blockNumber}
+                              {' · '}
+                              <a
+                                href={getExplorerUrl(transfer.txHash)}
+                                target="_blank"
+                                rel="noreferrer"
+                                className="inline-flex items-center gap-1 text-blue-600 hover:text-blue-700"
+                              >
+                                Tx <ExternalLink size={10} />
+                              </a>
+                            </p>
+                          </li>
+                        );
+                      })}
+                    </ol>
+                  </div>
+                </div>
+              </motion.div>
+            )}
+          </div>
+        </main>
+      </div>
+    </div>
+  );
+}
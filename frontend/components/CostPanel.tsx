@@ -0,0 +1,103 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { ethers } from 'ethers';
+import { Coins, Loader2 } from 'lucide-react';
+import { StorageQuote } from '@/lib/services/storage/types';
+import { STORAGE_BACKEND } from '@/lib/services/storage/config';
+import { getStorageQuote, ZG_STORAGE_MODE, ZGQuoteRequest } from '@/lib/services/zgStorageService';
+
+interface CostPanelProps {
+  // Pending uploads and mints - null hides the panel
+  request: ZGQuoteRequest | null;
+}
+
+const formatFee = (wei: string | bigint) => {
+  const value = Number(ethers.formatEther(wei));
+  return `${value < 0.000001 && value > 0 ? '<0.000001' : value.toFixed(6).replace(/\.?0+$/, '')} 0G`;
+};
+
+export function CostPanel({ request }: CostPanelProps) {
+  const [quote, setQuote] = useState<StorageQuote | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Only re-quote when the pending content actually changes
+  const requestKey = request ? JSON.stringify(request) : null;
+
+  useEffect(() => {
+    if (!requestKey) return;
+    let cancelled = false;
+
+    setIsLoading(true);
+    setError(null);
+    getStorageQuote(JSON.parse(requestKey))
+      .then(result => {
+        if (!cancelled) setQuote(result);
+      })
+      .catch(err => {
+        console.error('[App] Cost quote failed:', err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Quote failed');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [requestKey]);
+
+  if (!request) return null;
+
+  // Local and in-memory backends store for free; otherwise the mode decides who pays the Flow fee
+  const storagePaidByUser = STORAGE_BACKEND === 'zg' && ZG_STORAGE_MODE === 'user';
+  const storageFree = STORAGE_BACKEND !== 'zg';
+  const userTotal = quote
+    ? BigInt(quote.mint?.fee ?? 0) + (storagePaidByUser ? BigInt(quote.storageFee) : BigInt(0))
+    : null;
+
+  return (
+    <div className="border border-gray-200 rounded-xl px-4 py-3 text-sm">
+      <div className="flex items-center justify-between font-medium text-gray-900 mb-2">
+        <span className="flex items-center gap-2">
+          <Coins className="w-4 h-4" style={{ color: '#36454F' }} />
+          Estimated Cost
+        </span>
+        {isLoading && <Loader2 size={14} className="animate-spin text-gray-400" />}
+      </div>
+
+      {error && !quote && (
+        <p className="text-xs text-red-600">Could not estimate cost: {error}</p>
+      )}
+
+      {quote && (
+        <dl className="space-y-1.5 text-xs text-gray-700">
+          <div className="flex justify-between">
+            <dt>
+              Storage · {quote.files.length} file{quote.files.length !== 1 ? 's' : ''}, {quote.totalSectors} sectors
+            </dt>
+            <dd className="font-medium text-gray-900">
+              {storageFree ? 'Free (dev storage)' : formatFee(quote.storageFee)}
+            </dd>
+          </div>
+          {!storageFree && !storagePaidByUser && (
+            <p className="text-[11px] text-gray-500">Storage fee is paid by the app&apos;s storage wallet</p>
+          )}
+          <div className="flex justify-between">
+            <dt>
+              Mint gas{quote.mint && ` · ${quote.mint.transactions} transaction${quote.mint.transactions !== 1 ? 's' : ''}`}
+            </dt>
+            <dd className="font-medium text-gray-900" title={quote.mintError}>
+              {quote.mint ? formatFee(quote.mint.fee) : 'Unavailable'}
+            </dd>
+          </div>
+          <div className="flex justify-between border-t border-gray-100 pt-1.5 text-gray-900">
+            <dt className="font-semibold">You pay</dt>
+            <dd className="font-semibold">{userTotal !== null && formatFee(userTotal)}</dd>
+          </div>
+        </dl>
+      )}
+    </div>
+  );
+}
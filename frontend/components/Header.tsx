@@ -2,10 +2,13 @@
 
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
+import { useAccount } from 'wagmi';
 import { CustomConnectButton } from '@/components/CustomConnectButton';
 
 export function Header() {
   const pathname = usePathname();
+  const { address, isConnected } = useAccount();
+  const profilePath = address ? `/profile/${address}` : null;
 
   return (
     <header className="fixed top-0 left-0 right-0 z-50 px-6 lg:px-12 py-3 bg-white/80 backdrop-blur-md">
@@ -29,6 +32,14 @@ export function Header() {
             >
               Collection
             </Link>
+            {isConnected && profilePath && (
+              <Link
+                href={profilePath}
+                className={`hover:text-gray-900 transition-colors ${pathname === profilePath ? 'text-gray-900 font-semibold' : ''}`}
+              >
+                My NFTs
+              </Link>
+            )}
           </nav>
 
           <div className="flex items-center">
@@ -0,0 +1,338 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { AlertCircle, AlertTriangle, Check, Code, Database, Link2, Loader2, Plus, Trash2, X } from 'lucide-react';
+import { getStorageUrl, NFTAttribute, NFTMetadata } from '@/lib/services/storageService';
+import { getNFTData, getReadProvider } from '@/lib/services/contractService';
+import { hasMetadataErrors, MetadataIssue, validateNFTMetadata } from '@/lib/services/metadataValidation';
+
+type OnChainRecord = Awaited<ReturnType<typeof getNFTData>>;
+
+interface MetadataModalProps {
+  // Metadata as createMetadata produces it for this NFT
+  metadata: NFTMetadata;
+  // Title, description and attributes can be changed (before upload)
+  editable?: boolean;
+  // Image root is not known until upload
+  imagePending?: boolean;
+  // Minted token - enables the stored vs on-chain comparison
+  tokenId?: number;
+  metadataHash?: string;
+  onClose: () => void;
+  onSave?: (metadata: NFTMetadata) => void;
+}
+
+function IssueList({ issues }: { issues: MetadataIssue[] }) {
+  if (issues.length === 0) {
+    return (
+      <div className="flex items-center gap-2 text-xs font-medium text-green-700">
+        <Check size={14} strokeWidth={2.5} />
+        Valid ERC-721 metadata
+      </div>
+    );
+  }
+
+  return (
+    <ul className="space-y-1">
+      {issues.map((issue, index) => (
+        <li
+          key={index}
+          className={`flex items-start gap-2 text-xs ${issue.severity === 'error' ? 'text-red-700' : 'text-amber-700'}`}
+        >
+          {issue.severity === 'error'
+            ? <AlertCircle size={14} className="shrink-0 mt-px" />
+            : <AlertTriangle size={14} className="shrink-0 mt-px" />}
+          <span>
+            {issue.path && <code className="font-mono">{issue.path}</code>}
+            {issue.path && ': '}
+            {issue.message}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function JsonBlock({ value }: { value: unknown }) {
+  return (
+    <pre className="bg-gray-50 border border-gray-200 rounded-xl p-4 text-[11px] leading-relaxed text-gray-800 font-mono overflow-x-auto whitespace-pre-wrap break-all">
+      {JSON.stringify(value, null, 2)}
+    </pre>
+  );
+}
+
+/**
+ * Compare the stored metadata JSON with the token's on-chain record
+ */
+function getConsistencyChecks(stored: NFTMetadata, onChain: OnChainRecord, metadataHash?: string) {
+  const attribute = (trait: string) => stored.attributes?.find(a => a.trait_type === trait)?.value;
+
+  const checks = [
+    { label: 'Metadata root matches token', ok: !metadataHash || onChain.metadataHash === metadataHash },
+    { label: 'Image URI points to on-chain image', ok: !!onChain.coloredImageHash && stored.image?.includes(onChain.coloredImageHash) },
+    { label: 'Style attribute matches', ok: attribute('Style') === onChain.style },
+    { label: 'Prompt attribute matches', ok: attribute('Prompt') === onChain.prompt },
+  ];
+
+  if (stored.provenance || onChain.originalSketchHash) {
+    checks.push({
+      label: 'Sketch provenance matches token',
+      ok: stored.provenance?.originalSketchHash === onChain.originalSketchHash,
+    });
+  }
+
+  return checks;
+}
+
+export function MetadataModal({
+  metadata,
+  editable = false,
+  imagePending = false,
+  tokenId,
+  metadataHash,
+  onClose,
+  onSave,
+}: MetadataModalProps) {
+  const [name, setName] = useState(metadata.name);
+  const [description, setDescription] = useState(metadata.description);
+  const [attributes, setAttributes] = useState<NFTAttribute[]>(metadata.attributes);
+
+  // Minted tokens: what was actually stored vs what the contract recorded
+  const [stored, setStored] = useState<NFTMetadata | null>(null);
+  const [onChain, setOnChain] = useState<OnChainRecord | null>(null);
+  const [isLoadingToken, setIsLoadingToken] = useState(tokenId !== undefined);
+  const [tokenError, setTokenError] = useState<string | null>(null);
+
+  const preview: NFTMetadata = { ...metadata, name, description, attributes };
+  const issues = useMemo(
+    () => validateNFTMetadata({ ...metadata, name, description, attributes }),
+    [metadata, name, description, attributes]
+  );
+  const storedIssues = useMemo(() => (stored ? validateNFTMetadata(stored) : []), [stored]);
+
+  useEffect(() => {
+    if (tokenId === undefined) return;
+
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const record = await getNFTData(getReadProvider(), tokenId);
+        if (cancelled) return;
+        setOnChain(record);
+
+        const hash = record.metadataHash || metadataHash;
+        if (hash) {
+          const response = await fetch(getStorageUrl(hash));
+          if (!response.ok) throw new Error(`Stored metadata unavailable (${response.status})`);
+          const json = await response.json();
+          if (!cancelled) setStored(json);
+        }
+      } catch (error) {
+        console.error(`[App] Failed to load token #${tokenId}:`, error);
+        if (!cancelled) setTokenError(error instanceof Error ? error.message : 'Failed to load token');
+      } finally {
+        if (!cancelled) setIsLoadingToken(false);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [tokenId, metadataHash]);
+
+  const updateAttribute = (index: number, changes: Partial<NFTAttribute>) => {
+    setAttributes(prev => prev.map((a, i) => (i === index ? { ...a, ...changes } : a)));
+  };
+
+  const inputClass = 'w-full bg-gray-50 border border-gray-200 rounded-xl px-4 py-3 text-sm text-gray-900 placeholder-gray-400 focus:outline-none focus:ring-2 focus:border-transparent transition-all hover:bg-gray-100 focus:ring-[#36454F]';
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="bg-white rounded-2xl shadow-2xl w-full max-w-5xl max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="sticky top-0 z-10 bg-white flex items-center justify-between px-6 pt-6 pb-4 border-b border-gray-200">
+          <div className="flex items-center gap-2">
+            <Code className="w-5 h-5" style={{ color: '#36454F' }} />
+            <h2 className="text-lg font-bold text-gray-900">
+              Metadata{tokenId !== undefined && ` · NFT #${tokenId}`}
+            </h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-lg hover:bg-gray-100 transition-colors text-gray-600"
+            title="Close"
+          >
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <div className={`grid gap-6 ${editable ? 'md:grid-cols-2' : ''}`}>
+            {/* Editor */}
+            {editable && (
+              <div className="space-y-4">
+                <div>
+                  <label className="text-sm font-medium mb-2 block text-gray-900">Name</label>
+                  <input value={name} onChange={(e) => setName(e.target.value)} className={inputClass} />
+                </div>
+
+                <div>
+                  <label className="text-sm font-medium mb-2 block text-gray-900">Description</label>
+                  <textarea
+                    value={description}
+                    onChange={(e) => setDescription(e.target.value)}
+                    rows={3}
+                    className={`${inputClass} resize-none`}
+                  />
+                </div>
+
+                <div>
+                  <label className="text-sm font-medium mb-2 block text-gray-900">Attributes</label>
+                  <div className="space-y-2">
+                    {attributes.map((attribute, index) => (
+                      <div key={index} className="flex gap-2">
+                        <input
+                          value={attribute.trait_type}
+                          onChange={(e) => updateAttribute(index, { trait_type: e.target.value })}
+                          placeholder="Trait"
+                          className={`${inputClass} w-2/5 py-2`}
+                        />
+                        <input
+                          value={attribute.value}
+                          onChange={(e) => updateAttribute(index, { value: e.target.value })}
+                          placeholder="Value"
+                          className={`${inputClass} flex-1 py-2`}
+                        />
+                        <button
+                          onClick={() => setAttributes(prev => prev.filter((_, i) => i !== index))}
+                          className="p-2 rounded-lg hover:bg-gray-100 transition-colors text-gray-500"
+                          title="Remove attribute"
+                        >
+                          <Trash2 size={14} />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                  <button
+                    onClick={() => setAttributes(prev => [...prev, { trait_type: '', value: '' }])}
+                    className="mt-2 flex items-center gap-1.5 text-xs font-medium text-gray-700 hover:text-gray-900"
+                  >
+                    <Plus size={14} />
+                    Add attribute
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {/* Generated JSON */}
+            <div className="space-y-3">
+              <div className="text-sm font-medium text-gray-900">
+                {tokenId !== undefined ? 'Metadata (this session)' : 'Metadata to upload'}
+              </div>
+              <JsonBlock value={preview} />
+              {imagePending && (
+                <p className="text-xs text-gray-500">The image URI is filled in with its 0G root after upload.</p>
+              )}
+              <IssueList issues={issues} />
+            </div>
+          </div>
+
+          {/* Stored vs On-chain */}
+          {tokenId !== undefined && (
+            <div className="pt-6 border-t border-gray-200 space-y-4">
+              {isLoadingToken ? (
+                <div className="flex items-center justify-center gap-2 py-6 text-sm text-gray-600">
+                  <Loader2 className="w-5 h-5 animate-spin" />
+                  Loading token from 0G...
+                </div>
+              ) : tokenError ? (
+                <div className="flex items-center gap-2 text-sm text-red-700">
+                  <AlertCircle size={16} />
+                  {tokenError}
+                </div>
+              ) : (
+                <>
+                  <div className="grid gap-6 md:grid-cols-2">
+                    <div className="space-y-3">
+                      <div className="flex items-center gap-2 text-sm font-medium text-gray-900">
+                        <Database className="w-4 h-4" style={{ color: '#36454F' }} />
+                        Stored Metadata (0G Storage)
+                      </div>
+                      {stored ? (
+                        <>
+                          <JsonBlock value={stored} />
+                          <IssueList issues={storedIssues} />
+                        </>
+                      ) : (
+                        <p className="text-xs text-gray-500">No metadata hash recorded for this token.</p>
+                      )}
+                    </div>
+
+                    <div className="space-y-3">
+                      <div className="flex items-center gap-2 text-sm font-medium text-gray-900">
+                        <Link2 className="w-4 h-4" style={{ color: '#36454F' }} />
+                        On-chain Record (getNFTData)
+                      </div>
+                      {onChain && (
+                        <JsonBlock value={{ ...onChain, createdAt: new Date(onChain.createdAt * 1000).toISOString() }} />
+                      )}
+                    </div>
+                  </div>
+
+                  {stored && onChain && (
+                    <ul className="space-y-1">
+                      {getConsistencyChecks(stored, onChain, metadataHash).map(check => (
+                        <li
+                          key={check.label}
+                          className={`flex items-center gap-2 text-xs font-medium ${check.ok ? 'text-green-700' : 'text-red-700'}`}
+                        >
+                          {check.ok ? <Check size={14} strokeWidth={2.5} /> : <AlertCircle size={14} />}
+                          {check.label}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        {editable && onSave && (
+          <div className="sticky bottom-0 bg-white flex justify-end gap-3 px-6 py-4 border-t border-gray-200">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-100 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => onSave(preview)}
+              disabled={hasMetadataErrors(issues)}
+              className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                hasMetadataErrors(issues)
+                  ? 'bg-gray-200 text-gray-400 cursor-not-allowed'
+                  : 'bg-[#36454F] text-white hover:bg-[#2a3540]'
+              }`}
+            >
+              Save Metadata
+            </button>
+          </div>
+        )}
+      </motion.div>
+    </motion.div>
+  );
+}
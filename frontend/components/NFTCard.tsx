@@ -3,6 +3,8 @@
 import { motion } from 'framer-motion';
 import { Loader2, Check, AlertCircle, RefreshCcw, Code, ExternalLink, Database } from 'lucide-react';
 import Image from 'next/image';
+import { toCssAspectRatio } from '@/lib/services/imageUtils';
+import { VerifiedBadge } from './VerifiedBadge';
 
 interface NFTCardProps {
   nft: {
@@ -17,6 +19,10 @@ interface NFTCardProps {
     metadataHash?: string;
     txHash?: string;
     tokenId?: number;
+    aspectRatio?: string;
+    width?: number;
+    height?: number;
+    rarityRank?: number; // 1 = rarest in the collection
   };
   onRegenerate?: () => void;
   onViewMetadata?: () => void;
@@ -45,6 +51,11 @@ export function NFTCard({ nft, onRegenerate, onViewMetadata, onMint, isMinting,
 
   const currentStatus = statusConfig[nft.status as keyof typeof statusConfig];
 
+  // Prefer the real pixel size, fall back to the requested format while generating
+  const cssAspectRatio = nft.width && nft.height
+    ? `${nft.width} / ${nft.height}`
+    : toCssAspectRatio(nft.aspectRatio || '1:1');
+
   return (
     <motion.div
       initial={{ opacity: 0, y: 10 }}
@@ -54,7 +65,7 @@ export function NFTCard({ nft, onRegenerate, onViewMetadata, onMint, isMinting,
       style={{ backgroundColor: '#FFFFFF', border: '1px solid rgba(0, 0, 0, 0.1)' }}
     >
       {/* Image Container */}
-      <div className="relative aspect-square bg-gray-100 rounded-t-lg overflow-hidden">
+      <div className="relative bg-gray-100 rounded-t-lg overflow-hidden" style={{ aspectRatio: cssAspectRatio }}>
         {nft.url ? (
           <>
             <Image
@@ -75,7 +86,7 @@ export function NFTCard({ nft, onRegenerate, onViewMetadata, onMint, isMinting,
                 >
                   <Code size={16} />
                 </button>
-                {nft.status !== 'minted' && nft.status !== 'minting' && (
+                {onRegenerate && nft.status !== 'minted' && nft.status !== 'minting' && (
                   <button
                     onClick={onRegenerate}
                     className="p-2 bg-white rounded-lg hover:bg-gray-100 transition-colors shadow-sm"
@@ -97,12 +108,14 @@ export function NFTCard({ nft, onRegenerate, onViewMetadata, onMint, isMinting,
             ) : nft.status === 'failed' ? (
               <div className="flex flex-col items-center gap-3">
                 <AlertCircle className="w-10 h-10 text-red-500" />
-                <button
-                  onClick={onRegenerate}
-                  className="px-3 py-1.5 bg-gray-900 text-white rounded text-xs font-medium hover:bg-gray-800 transition-colors"
-                >
-                  Retry
-                </button>
+                {onRegenerate && (
+                  <button
+                    onClick={onRegenerate}
+                    className="px-3 py-1.5 bg-gray-900 text-white rounded text-xs font-medium hover:bg-gray-800 transition-colors"
+                  >
+                    Retry
+                  </button>
+                )}
               </div>
             ) : (
               <span className="text-gray-400 text-xs font-medium">Waiting...</span>
@@ -110,6 +123,20 @@ export function NFTCard({ nft, onRegenerate, onViewMetadata, onMint, isMinting,
           </div>
         )}
 
+        {/* Rarity Rank */}
+        {nft.rarityRank !== undefined && (
+          <div className="absolute top-3 right-3 px-2 py-0.5 rounded-full bg-white/90 text-[10px] font-semibold text-gray-800 shadow-sm">
+            Rank #{nft.rarityRank}
+          </div>
+        )}
+
+        {/* Stored image read back and checked against its root */}
+        {nft.imageHash && (
+          <div className="absolute bottom-3 left-3">
+            <VerifiedBadge root={nft.imageHash} tokenId={nft.tokenId} />
+          </div>
+        )}
+
         {/* Status Badge */}
         {currentStatus && (
           <div className="absolute top-3 left-3">
@@ -0,0 +1,62 @@
+'use client';
+
+import { useState } from 'react';
+import { ChevronDown, Gem } from 'lucide-react';
+import { RaritySummary } from '@/lib/services/traitService';
+
+interface RarityPanelProps {
+  summary: RaritySummary;
+}
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+export function RarityPanel({ summary }: RarityPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="border border-gray-200 rounded-xl">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className="w-full flex items-center justify-between px-4 py-3 text-sm font-medium text-gray-900"
+      >
+        <span className="flex items-center gap-2">
+          <Gem className="w-4 h-4" style={{ color: '#36454F' }} />
+          Trait Rarity
+          <span className="text-xs font-normal text-gray-500">
+            {summary.layers.length} layers · {summary.total} NFT{summary.total !== 1 ? 's' : ''}
+          </span>
+        </span>
+        <ChevronDown size={16} className={`transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isOpen && (
+        <div className="px-4 pb-4 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {summary.layers.map(layer => (
+            <div key={layer.trait_type}>
+              <div className="text-xs font-semibold text-gray-900 mb-2">{layer.trait_type}</div>
+              <ul className="space-y-1.5">
+                {layer.values.map(stat => (
+                  <li key={stat.value} className="text-[11px] text-gray-700">
+                    <div className="flex justify-between">
+                      <span className="truncate">{stat.value}</span>
+                      <span className="text-gray-500 shrink-0 ml-2">
+                        {stat.count} · {formatPercent(stat.frequency)}
+                        {stat.probability !== undefined && ` (target ${formatPercent(stat.probability)})`}
+                      </span>
+                    </div>
+                    <div className="h-1 rounded-full bg-gray-100 mt-0.5">
+                      <div
+                        className="h-1 rounded-full"
+                        style={{ width: formatPercent(stat.frequency), backgroundColor: '#36454F' }}
+                      />
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
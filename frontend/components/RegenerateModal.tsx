@@ -0,0 +1,166 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Loader2, RefreshCcw, Lock, History, X, Undo2 } from 'lucide-react';
+import Image from 'next/image';
+import type { JobItem, JobItemAttempt, RegenerateItemOptions } from '@/lib/services/jobs/types';
+
+interface RegenerateModalProps {
+  jobId: string;
+  nft: {
+    id: string;
+    url: string;
+    title?: string;
+    prompt: string;
+    status: string;
+    seed?: number;
+    historyCount?: number;
+  };
+  onClose: () => void;
+  onRegenerate: (options: RegenerateItemOptions) => void;
+  onRevert: (attempt: number) => void;
+}
+
+export function RegenerateModal({ jobId, nft, onClose, onRegenerate, onRevert }: RegenerateModalProps) {
+  const [prompt, setPrompt] = useState(nft.prompt);
+  const [lockSeed, setLockSeed] = useState(false);
+  const [history, setHistory] = useState<JobItemAttempt[]>([]);
+  const [isLoadingHistory, setIsLoadingHistory] = useState(!!nft.historyCount);
+
+  // Previous attempts are not part of job snapshots - fetch them on open
+  useEffect(() => {
+    if (!nft.historyCount) return;
+
+    let cancelled = false;
+    fetch(`/api/jobs/${jobId}/items/${nft.id}`)
+      .then(res => res.json())
+      .then((result: { success: boolean; item?: JobItem }) => {
+        if (!cancelled && result.success) setHistory(result.item?.history || []);
+      })
+      .catch(error => console.error('[App] Failed to load item history:', error))
+      .finally(() => {
+        if (!cancelled) setIsLoadingHistory(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [jobId, nft.id, nft.historyCount]);
+
+  const canLockSeed = nft.seed !== undefined && nft.status === 'completed';
+
+  const handleSubmit = () => {
+    onRegenerate({
+      prompt: prompt.trim() || undefined,
+      seed: lockSeed && canLockSeed ? nft.seed : undefined,
+    });
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="bg-white rounded-2xl shadow-2xl w-full max-w-lg max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 pt-6 pb-4 border-b border-gray-200">
+          <div>
+            <h2 className="text-lg font-bold text-gray-900">Regenerate</h2>
+            {nft.title && <p className="text-xs text-gray-500 line-clamp-1">{nft.title}</p>}
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-lg hover:bg-gray-100 transition-colors text-gray-600"
+            title="Close"
+          >
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-5">
+          {/* Prompt */}
+          <div>
+            <label className="text-sm font-medium mb-2 block text-gray-900">Prompt</label>
+            <textarea
+              value={prompt}
+              onChange={(e) => setPrompt(e.target.value)}
+              rows={4}
+              className="w-full bg-gray-50 border border-gray-200 rounded-xl px-4 py-3 text-sm text-gray-900 placeholder-gray-400 focus:outline-none focus:ring-2 focus:border-transparent transition-all resize-none hover:bg-gray-100 focus:ring-[#36454F]"
+            />
+          </div>
+
+          {/* Seed */}
+          <label className={`flex items-center gap-2 text-sm ${canLockSeed ? 'text-gray-900 cursor-pointer' : 'text-gray-400'}`}>
+            <input
+              type="checkbox"
+              checked={lockSeed && canLockSeed}
+              disabled={!canLockSeed}
+              onChange={(e) => setLockSeed(e.target.checked)}
+              className="accent-[#36454F]"
+            />
+            <Lock className="w-4 h-4" style={{ color: canLockSeed ? '#36454F' : undefined }} />
+            {canLockSeed ? `Lock seed (#${nft.seed})` : 'Lock seed (no seed recorded)'}
+          </label>
+          <p className="text-xs text-gray-500 -mt-3">
+            Keep the seed to tweak the prompt while preserving the composition.
+          </p>
+
+          <button
+            onClick={handleSubmit}
+            className="w-full py-3 px-4 rounded-xl font-medium text-sm flex items-center justify-center gap-2 bg-[#36454F] text-white hover:bg-[#2a3540] transition-colors"
+          >
+            <RefreshCcw size={16} />
+            {nft.status === 'failed' ? 'Retry' : 'Regenerate'}
+          </button>
+
+          {/* History */}
+          {!!nft.historyCount && (
+            <div className="pt-4 border-t border-gray-200">
+              <div className="flex items-center gap-2 text-sm font-medium mb-3 text-gray-900">
+                <History className="w-4 h-4" style={{ color: '#36454F' }} />
+                Previous Versions
+              </div>
+              {isLoadingHistory ? (
+                <div className="flex justify-center py-4">
+                  <Loader2 className="w-5 h-5 text-gray-500 animate-spin" />
+                </div>
+              ) : (
+                <div className="grid grid-cols-3 gap-3">
+                  {history.map((attempt, index) => (
+                    <div key={`${index}-${attempt.createdAt}`} className="space-y-1.5">
+                      <div className="relative aspect-square rounded-lg overflow-hidden bg-gray-100">
+                        <Image
+                          src={attempt.imageUrl}
+                          alt={attempt.title || `Version ${index + 1}`}
+                          fill
+                          className="object-cover"
+                          sizes="160px"
+                        />
+                      </div>
+                      <button
+                        onClick={() => onRevert(index)}
+                        title={attempt.prompt}
+                        className="w-full py-1.5 px-2 rounded text-[10px] font-medium flex items-center justify-center gap-1 bg-gray-100 hover:bg-gray-200 text-gray-700 transition-colors"
+                      >
+                        <Undo2 size={10} />
+                        Revert
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,109 @@
+'use client';
+
+import { useState } from 'react';
+import { Plus, Trash2, RotateCcw } from 'lucide-react';
+import { TraitSchema } from '@/lib/types';
+import { DEFAULT_TRAIT_SCHEMA, validateTraitSchema } from '@/lib/services/traitService';
+
+interface TraitSchemaEditorProps {
+  schema: TraitSchema;
+  // Called on every edit; schema is null while the input does not parse
+  onChange: (schema: TraitSchema | null, error: string | null) => void;
+}
+
+interface LayerDraft {
+  name: string;
+  values: string; // "Value:weight, Value:weight"
+}
+
+function toDrafts(schema: TraitSchema): LayerDraft[] {
+  return schema.map(layer => ({
+    name: layer.name,
+    values: layer.values.map(option => `${option.value}:${option.weight}`).join(', '),
+  }));
+}
+
+// Weights are optional in the text form and default to 1
+function parseDrafts(drafts: LayerDraft[]): TraitSchema {
+  return drafts.map(draft => ({
+    name: draft.name.trim(),
+    values: draft.values
+      .split(',')
+      .map(entry => entry.trim())
+      .filter(Boolean)
+      .map(entry => {
+        const separator = entry.lastIndexOf(':');
+        const weight = separator > 0 ? Number(entry.slice(separator + 1)) : 1;
+        return {
+          value: (separator > 0 ? entry.slice(0, separator) : entry).trim(),
+          weight,
+        };
+      }),
+  }));
+}
+
+export function TraitSchemaEditor({ schema, onChange }: TraitSchemaEditorProps) {
+  const [drafts, setDrafts] = useState<LayerDraft[]>(() => toDrafts(schema));
+  const [error, setError] = useState<string | null>(null);
+
+  const update = (next: LayerDraft[]) => {
+    setDrafts(next);
+    const parsed = parseDrafts(next);
+    const validationError = validateTraitSchema(parsed);
+    setError(validationError);
+    onChange(validationError ? null : parsed, validationError);
+  };
+
+  const inputClass = 'bg-gray-50 border border-gray-200 rounded-lg px-3 py-2 text-xs text-gray-900 placeholder-gray-400 focus:outline-none focus:ring-2 focus:border-transparent transition-all hover:bg-gray-100 focus:ring-[#36454F]';
+
+  return (
+    <div className="space-y-2">
+      {drafts.map((draft, index) => (
+        <div key={index} className="flex gap-2">
+          <input
+            value={draft.name}
+            onChange={(e) => update(drafts.map((d, i) => (i === index ? { ...d, name: e.target.value } : d)))}
+            placeholder="Layer"
+            className={`${inputClass} w-1/4`}
+          />
+          <input
+            value={draft.values}
+            onChange={(e) => update(drafts.map((d, i) => (i === index ? { ...d, values: e.target.value } : d)))}
+            placeholder="Red:50, Blue:30, Gold:5"
+            className={`${inputClass} flex-1`}
+          />
+          <button
+            onClick={() => update(drafts.filter((_, i) => i !== index))}
+            className="p-2 rounded-lg hover:bg-gray-100 transition-colors text-gray-500"
+            title="Remove layer"
+          >
+            <Trash2 size={14} />
+          </button>
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between">
+        <button
+          onClick={() => update([...drafts, { name: '', values: '' }])}
+          className="flex items-center gap-1.5 text-xs font-medium text-gray-700 hover:text-gray-900"
+        >
+          <Plus size={14} />
+          Add layer
+        </button>
+        <button
+          onClick={() => update(toDrafts(DEFAULT_TRAIT_SCHEMA))}
+          className="flex items-center gap-1.5 text-xs font-medium text-gray-500 hover:text-gray-900"
+        >
+          <RotateCcw size={12} />
+          Defaults
+        </button>
+      </div>
+
+      {error ? (
+        <p className="text-xs text-red-600">{error}</p>
+      ) : (
+        <p className="text-xs text-gray-500">Format: value:weight, separated by commas. Higher weight = more common.</p>
+      )}
+    </div>
+  );
+}
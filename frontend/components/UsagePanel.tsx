@@ -0,0 +1,105 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Gauge, Loader2, ShieldCheck } from 'lucide-react';
+import { useSiweSession } from '@/lib/hooks/useSiweSession';
+import { UsageSnapshot } from '@/lib/services/usage/types';
+import { getUsage } from '@/lib/services/usageService';
+
+interface UsagePanelProps {
+  // Changes whenever usage may have changed (generation, upload)
+  refreshKey?: string;
+}
+
+const formatMB = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(bytes < 10 * 1024 * 1024 ? 1 : 0)} MB`;
+
+function UsageBar({ label, used, limit, format = String }: {
+  label: string;
+  used: number;
+  limit: number;
+  format?: (value: number) => string;
+}) {
+  const percent = limit > 0 ? Math.min(100, (used / limit) * 100) : 100;
+
+  return (
+    <div>
+      <div className="flex justify-between mb-1">
+        <span>{label}</span>
+        <span className="font-medium text-gray-900">{format(used)} / {format(limit)}</span>
+      </div>
+      <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden">
+        <div
+          className={`h-full rounded-full ${percent >= 90 ? 'bg-red-500' : 'bg-gray-700'}`}
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+    </div>
+  );
+}
+
+export function UsagePanel({ refreshKey }: UsagePanelProps) {
+  const [usage, setUsage] = useState<UsageSnapshot | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Signed-in wallets are metered with the wallet limits instead of by IP
+  const { session, canSignIn, isSigningIn, signIn, error: signInError } = useSiweSession();
+
+  const refresh = useCallback(() => {
+    getUsage()
+      .then(snapshot => {
+        setUsage(snapshot);
+        setError(null);
+      })
+      .catch(err => {
+        console.error('[App] Usage lookup failed:', err);
+        setError(err instanceof Error ? err.message : 'Usage unavailable');
+      });
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh, refreshKey, session]);
+
+  return (
+    <div className="border border-gray-200 rounded-xl px-4 py-3 text-sm">
+      <div className="flex items-center justify-between font-medium text-gray-900 mb-2">
+        <span className="flex items-center gap-2">
+          <Gauge className="w-4 h-4" style={{ color: '#36454F' }} />
+          Daily Usage
+        </span>
+        {usage && (
+          <span className="text-[11px] font-normal text-gray-500">
+            {usage.identity.type === 'wallet'
+              ? `${usage.identity.address?.slice(0, 6)}...${usage.identity.address?.slice(-4)}`
+              : 'Anonymous (by IP)'}
+          </span>
+        )}
+      </div>
+
+      {error && !usage && (
+        <p className="text-xs text-red-600">Could not load usage: {error}</p>
+      )}
+
+      {usage && (
+        <div className="space-y-2 text-xs text-gray-700">
+          <UsageBar label="Images" used={usage.used.images} limit={usage.limits.images} />
+          <UsageBar label="Storage" used={usage.used.storageBytes} limit={usage.limits.storageBytes} format={formatMB} />
+          <p className="text-[11px] text-gray-500">
+            Resets at {new Date(usage.resetAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+          </p>
+        </div>
+      )}
+
+      {canSignIn && (
+        <button
+          onClick={signIn}
+          disabled={isSigningIn}
+          className="mt-2 w-full flex items-center justify-center gap-1.5 text-xs font-medium border border-gray-300 rounded-lg py-1.5 hover:bg-gray-50 disabled:opacity-50"
+        >
+          {isSigningIn ? <Loader2 size={12} className="animate-spin" /> : <ShieldCheck size={12} />}
+          Sign in with wallet for higher limits
+        </button>
+      )}
+      {signInError && <p className="mt-1 text-[11px] text-red-600">{signInError}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Loader2, ShieldAlert, ShieldCheck, ShieldQuestion } from 'lucide-react';
+import { verifyStoredContent } from '@/lib/services/storageService';
+import { StorageVerification } from '@/lib/services/storage/types';
+
+interface VerifiedBadgeProps {
+  root: string;
+  // Also check the root against this token's on-chain record
+  tokenId?: number;
+  // Background and shadow of the pill (defaults suit an image overlay)
+  className?: string;
+}
+
+// Content is addressed by root, so one check per root/token is enough for the session
+const verifications = new Map<string, Promise<StorageVerification>>();
+
+function verifyOnce(root: string, tokenId?: number): Promise<StorageVerification> {
+  const key = `${root.toLowerCase()}:${tokenId ?? ''}`;
+  let pending = verifications.get(key);
+  if (!pending) {
+    pending = verifyStoredContent(root, tokenId);
+    // Failed checks can be retried on the next render
+    pending.catch(() => verifications.delete(key));
+    verifications.set(key, pending);
+  }
+  return pending;
+}
+
+const badgeConfig = {
+  ok: { icon: ShieldCheck, label: 'Verified', text: 'text-green-700' },
+  mismatch: { icon: ShieldAlert, label: 'Mismatch', text: 'text-red-700' },
+  missing: { icon: ShieldQuestion, label: 'Missing', text: 'text-amber-700' },
+};
+
+export function VerifiedBadge({ root, tokenId, className = 'bg-white/90 shadow-sm' }: VerifiedBadgeProps) {
+  const [verification, setVerification] = useState<StorageVerification | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    verifyOnce(root, tokenId)
+      .then(result => {
+        if (!cancelled) setVerification(result);
+      })
+      .catch(err => {
+        console.error(`[App] Failed to verify ${root}:`, err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Verification failed');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [root, tokenId]);
+
+  const pillClass = `inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-[10px] font-semibold ${className}`;
+
+  if (error) {
+    return (
+      <span className={`${pillClass} text-gray-500`} title={error}>
+        <ShieldQuestion size={12} strokeWidth={2.5} />
+        Unverified
+      </span>
+    );
+  }
+
+  if (!verification) {
+    return (
+      <span className={`${pillClass} text-gray-500`} title="Checking stored content...">
+        <Loader2 size={12} className="animate-spin" />
+        Verifying
+      </span>
+    );
+  }
+
+  const { icon: Icon, label, text } = badgeConfig[verification.status];
+
+  return (
+    <span className={`${pillClass} ${text}`} title={verification.message}>
+      <Icon size={12} strokeWidth={2.5} />
+      {label}
+    </span>
+  );
+}
@@ -0,0 +1,69 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useAccount } from 'wagmi';
+import { useEthersSigner } from './useEthersSigner';
+import { getSession, SessionInfo, signIn, signOut } from '@/lib/services/authService';
+
+/**
+ * Sign-In With Ethereum session for the connected wallet
+ * The session only counts while its address is the connected account.
+ */
+export function useSiweSession() {
+  const { address } = useAccount();
+  const signer = useEthersSigner();
+  const [session, setSession] = useState<SessionInfo | null>(null);
+  const [isSigningIn, setIsSigningIn] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getSession()
+      .then(async result => {
+        // Switched accounts - don't keep attributing requests to the previous wallet
+        if (result.authenticated && address && result.address?.toLowerCase() !== address.toLowerCase()) {
+          await signOut();
+          result = { authenticated: false };
+        }
+        if (!cancelled) setSession(result);
+      })
+      .catch(err => console.error('[Auth] Session lookup failed:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [address]);
+
+  const handleSignIn = useCallback(async () => {
+    if (!signer) return;
+    setIsSigningIn(true);
+    setError(null);
+    try {
+      setSession(await signIn(signer));
+    } catch (err) {
+      console.error('[Auth] Sign-in failed:', err);
+      setError(err instanceof Error ? err.message : 'Sign-in failed');
+    } finally {
+      setIsSigningIn(false);
+    }
+  }, [signer]);
+
+  const handleSignOut = useCallback(async () => {
+    await signOut();
+    setSession({ authenticated: false });
+  }, []);
+
+  const isSignedIn = !!session?.authenticated && !!address &&
+    session.address?.toLowerCase() === address.toLowerCase();
+
+  return {
+    session,
+    isSignedIn,
+    canSignIn: !!signer && !isSignedIn,
+    isSigningIn,
+    error,
+    signIn: handleSignIn,
+    signOut: handleSignOut,
+  };
+}
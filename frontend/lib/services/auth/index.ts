@@ -0,0 +1,17 @@
+/**
+ * Wallet Authentication
+ * Server-only: Sign-In With Ethereum sessions for API routes
+ */
+
+export * from './types';
+export { SIWE_STATEMENT } from './siwe';
+export {
+  createNonce,
+  encodeSession,
+  getSession,
+  requireAddress,
+  requireOwner,
+  SESSION_COOKIE,
+  SESSION_TTL_MS,
+  verifySignIn,
+} from './session';
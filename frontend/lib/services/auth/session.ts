@@ -0,0 +1,186 @@
+/**
+ * SIWE Sessions
+ * Server-only: single-use sign-in nonces, verification of signed EIP-4361 messages,
+ * and the HMAC-signed session cookie (AUTH_SESSION_SECRET) that route handlers read.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { ethers } from 'ethers';
+import { generateSiweNonce, parseSiweMessage } from 'viem/siwe';
+import { AuthResult, AuthSession } from './types';
+
+export const SESSION_COOKIE = 'sketchnft_session';
+export const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Nonces must be signed and verified within this time
+const NONCE_TTL_MS = 10 * 60 * 1000;
+const MAX_PENDING_NONCES = 10000;
+
+// Keep nonces and the fallback secret per server process (survives Next.js dev module reloads)
+const globalForAuth = globalThis as typeof globalThis & {
+  __siweNonces?: Map<string, number>;
+  __sessionSecret?: string;
+};
+
+function getSessionSecret(): string {
+  if (process.env.AUTH_SESSION_SECRET) return process.env.AUTH_SESSION_SECRET;
+
+  if (!globalForAuth.__sessionSecret) {
+    console.warn('[Auth] AUTH_SESSION_SECRET not set - sessions end when the server restarts');
+    globalForAuth.__sessionSecret = randomBytes(32).toString('hex');
+  }
+  return globalForAuth.__sessionSecret;
+}
+
+function getNonces(): Map<string, number> {
+  if (!globalForAuth.__siweNonces) {
+    globalForAuth.__siweNonces = new Map();
+  }
+  return globalForAuth.__siweNonces;
+}
+
+/**
+ * Issue a single-use nonce for a sign-in message
+ */
+export function createNonce(): string {
+  const nonces = getNonces();
+  const now = Date.now();
+
+  for (const [nonce, expiresAt] of nonces) {
+    if (expiresAt < now) nonces.delete(nonce);
+  }
+  // Drop the oldest when flooded (Map keeps insertion order)
+  while (nonces.size >= MAX_PENDING_NONCES) {
+    nonces.delete(nonces.keys().next().value as string);
+  }
+
+  const nonce = generateSiweNonce();
+  nonces.set(nonce, now + NONCE_TTL_MS);
+  return nonce;
+}
+
+function consumeNonce(nonce: string): boolean {
+  const nonces = getNonces();
+  const expiresAt = nonces.get(nonce);
+  nonces.delete(nonce);
+  return expiresAt !== undefined && expiresAt >= Date.now();
+}
+
+/**
+ * Check a signed sign-in message and create the session it proves
+ * @param host - Host the request was sent to; must match the message domain
+ */
+export function verifySignIn(message: string, signature: string, host: string | null): AuthResult {
+  const fields = parseSiweMessage(message);
+  const now = Date.now();
+
+  if (!fields.address || !fields.nonce || !fields.domain || !fields.chainId || fields.version !== '1') {
+    return { error: 'Not a sign-in message', status: 400 };
+  }
+
+  if (!host || fields.domain !== host) {
+    return { error: `Sign-in message is for ${fields.domain}, not ${host}`, status: 401 };
+  }
+
+  if (fields.expirationTime && fields.expirationTime.getTime() < now) {
+    return { error: 'Sign-in message expired', status: 401 };
+  }
+
+  if (fields.notBefore && fields.notBefore.getTime() > now) {
+    return { error: 'Sign-in message is not valid yet', status: 401 };
+  }
+
+  // Single use: a replayed or unknown nonce never creates a session
+  if (!consumeNonce(fields.nonce)) {
+    return { error: 'Unknown or expired nonce - request a new one', status: 401 };
+  }
+
+  try {
+    const signer = ethers.verifyMessage(message, signature);
+    if (signer.toLowerCase() !== fields.address.toLowerCase()) {
+      return { error: 'Signature does not match the message address', status: 401 };
+    }
+  } catch {
+    return { error: 'Invalid signature', status: 401 };
+  }
+
+  return {
+    session: {
+      address: ethers.getAddress(fields.address),
+      chainId: fields.chainId,
+      issuedAt: now,
+      expiresAt: now + SESSION_TTL_MS,
+    },
+  };
+}
+
+function sign(payload: string): string {
+  return createHmac('sha256', getSessionSecret()).update(payload).digest('base64url');
+}
+
+/**
+ * Session cookie value: base64url JSON payload and its HMAC
+ */
+export function encodeSession(session: AuthSession): string {
+  const payload = Buffer.from(JSON.stringify(session)).toString('base64url');
+  return `${payload}.${sign(payload)}`;
+}
+
+function decodeSession(value: string): AuthSession | null {
+  const [payload, mac] = value.split('.');
+  if (!payload || !mac) return null;
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(mac);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  try {
+    const session: AuthSession = JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8'));
+    return session.expiresAt > Date.now() && ethers.isAddress(session.address) ? session : null;
+  } catch {
+    return null;
+  }
+}
+
+function readCookie(headers: Headers, name: string): string | null {
+  for (const part of (headers.get('cookie') || '').split(';')) {
+    const [key, ...rest] = part.trim().split('=');
+    if (key === name) return decodeURIComponent(rest.join('='));
+  }
+  return null;
+}
+
+/**
+ * Session of the request's cookie, or null when signed out, tampered with or expired
+ */
+export function getSession(headers: Headers): AuthSession | null {
+  const value = readCookie(headers, SESSION_COOKIE);
+  return value ? decodeSession(value) : null;
+}
+
+/**
+ * For route handlers that need a signed-in wallet
+ * @returns The session, or an error with status 401 to return
+ */
+export function requireAddress(headers: Headers): AuthResult {
+  const session = getSession(headers);
+  if (!session) {
+    return { error: 'Sign in with your wallet to continue', status: 401 };
+  }
+  return { session };
+}
+
+/**
+ * For resources attributed to a wallet: only that wallet's session may change them
+ * @param owner - Owning address; unowned resources are open to everyone
+ * @returns Empty when allowed, otherwise an error with status 401 or 403
+ */
+export function requireOwner(headers: Headers, owner: string | undefined): AuthResult {
+  if (!owner) return {};
+
+  const auth = requireAddress(headers);
+  if (auth.session && auth.session.address.toLowerCase() !== owner.toLowerCase()) {
+    return { error: 'Only the wallet that created this can change it', status: 403 };
+  }
+  return auth;
+}
@@ -0,0 +1,33 @@
+/**
+ * Sign-In With Ethereum messages
+ * Client-safe: builds the EIP-4361 message the wallet signs. The server checks the
+ * domain, nonce and expiry it contains before creating a session.
+ */
+
+import { createSiweMessage } from 'viem/siwe';
+
+export const SIWE_STATEMENT = 'Sign in to SketchNFT. This does not send a transaction or cost gas.';
+
+// How long a signed message can be exchanged for a session
+export const SIWE_MESSAGE_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * EIP-4361 sign-in message for this site
+ * @param domain - Host the app is served from (window.location.host)
+ * @param uri - Origin the app is served from (window.location.origin)
+ */
+export function createSignInMessage(address: string, chainId: number, nonce: string, domain: string, uri: string): string {
+  const issuedAt = new Date();
+
+  return createSiweMessage({
+    address: address as `0x${string}`,
+    chainId,
+    domain,
+    uri,
+    nonce,
+    statement: SIWE_STATEMENT,
+    version: '1',
+    issuedAt,
+    expirationTime: new Date(issuedAt.getTime() + SIWE_MESSAGE_TTL_MS),
+  });
+}
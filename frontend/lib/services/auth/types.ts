@@ -0,0 +1,19 @@
+/**
+ * Auth Types
+ * A session is created by Sign-In With Ethereum (EIP-4361) and carried in an
+ * HMAC-signed cookie, so API routes can attribute requests to a wallet.
+ */
+
+export interface AuthSession {
+  address: string; // Checksummed
+  chainId: number;
+  issuedAt: number;
+  expiresAt: number;
+}
+
+// Result of a route helper that needs an authenticated wallet
+export interface AuthResult {
+  session?: AuthSession;
+  error?: string;
+  status?: number;
+}
@@ -0,0 +1,75 @@
+/**
+ * Auth Service - Client-side Sign-In With Ethereum
+ * Signs an EIP-4361 message with the connected wallet and exchanges it for the
+ * HTTP-only session cookie that API routes read (/api/auth).
+ */
+
+import { ethers } from 'ethers';
+import { createSignInMessage } from './auth/siwe';
+
+export interface SessionInfo {
+  authenticated: boolean;
+  address?: string;
+  chainId?: number;
+  expiresAt?: number;
+}
+
+/**
+ * Current session from the cookie (the cookie itself is not readable from JS)
+ */
+export async function getSession(): Promise<SessionInfo> {
+  const response = await fetch('/api/auth/session', { cache: 'no-store' });
+  const result = await response.json();
+
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || 'Failed to load session');
+  }
+
+  return { authenticated: result.authenticated, address: result.address, chainId: result.chainId, expiresAt: result.expiresAt };
+}
+
+/**
+ * Sign in: fetch a nonce, have the wallet sign the message (no gas), verify it server-side
+ * @throws When the user rejects the signature or verification fails
+ */
+export async function signIn(signer: ethers.Signer): Promise<SessionInfo> {
+  const nonceResponse = await fetch('/api/auth/nonce', { cache: 'no-store' });
+  const { nonce } = await nonceResponse.json();
+  if (!nonceResponse.ok || !nonce) {
+    throw new Error('Failed to get sign-in nonce');
+  }
+
+  const address = await signer.getAddress();
+  const network = await signer.provider?.getNetwork();
+  const message = createSignInMessage(
+    address,
+    Number(network?.chainId ?? 1),
+    nonce,
+    window.location.host,
+    window.location.origin
+  );
+
+  console.log('[Auth] Requesting sign-in signature...');
+  const signature = await signer.signMessage(message);
+
+  const response = await fetch('/api/auth/verify', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ message, signature }),
+  });
+  const result = await response.json();
+
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || 'Sign-in failed');
+  }
+
+  console.log(`[Auth] Signed in as ${result.address}`);
+  return { authenticated: true, address: result.address, expiresAt: result.expiresAt };
+}
+
+/**
+ * Sign out (clears the session cookie)
+ */
+export async function signOut(): Promise<void> {
+  await fetch('/api/auth/session', { method: 'DELETE' });
+}
@@ -0,0 +1,87 @@
+/**
+ * Collection Query
+ * CollectionQuery <-> URL query string, shared by the collection page (shareable
+ * filtered views) and GET /api/collection.
+ *
+ *   ?q=cat&style=anime&creator=0x...&from=2025-01-01&to=2025-01-31&trait=Mood:Happy&sort=oldest
+ */
+
+import { CollectionQuery, CollectionSort } from './types';
+
+export const COLLECTION_SORTS: { value: CollectionSort; label: string }[] = [
+  { value: 'newest', label: 'Newest' },
+  { value: 'oldest', label: 'Oldest' },
+  { value: 'tokenId', label: 'Token ID' },
+];
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+
+/**
+ * Parse filters from a query string - unknown parameters (cursor, limit) are ignored
+ */
+export function parseCollectionQuery(params: URLSearchParams): { query?: CollectionQuery; error?: string } {
+  const query: CollectionQuery = {};
+
+  const q = params.get('q')?.trim();
+  if (q) query.q = q;
+
+  const style = params.get('style');
+  if (style) query.style = style;
+
+  const creator = params.get('creator');
+  if (creator) {
+    if (!ADDRESS_PATTERN.test(creator)) return { error: 'creator must be a wallet address' };
+    query.creator = creator;
+  }
+
+  for (const key of ['from', 'to'] as const) {
+    const day = params.get(key);
+    if (!day) continue;
+    if (!DAY_PATTERN.test(day) || isNaN(Date.parse(day))) return { error: `${key} must be a date (YYYY-MM-DD)` };
+    query[key] = day;
+  }
+
+  for (const trait of params.getAll('trait')) {
+    const separator = trait.indexOf(':');
+    if (separator <= 0) return { error: 'trait must be trait_type:value' };
+    query.traits = { ...query.traits, [trait.slice(0, separator)]: trait.slice(separator + 1) };
+  }
+
+  const sort = params.get('sort');
+  if (sort) {
+    if (!COLLECTION_SORTS.some(option => option.value === sort)) {
+      return { error: `sort must be one of ${COLLECTION_SORTS.map(option => option.value).join(', ')}` };
+    }
+    query.sort = sort as CollectionSort;
+  }
+
+  return { query };
+}
+
+/**
+ * Query string parameters of a filtered view (defaults omitted)
+ */
+export function toCollectionSearchParams(query: CollectionQuery): URLSearchParams {
+  const params = new URLSearchParams();
+
+  if (query.q) params.set('q', query.q);
+  if (query.style) params.set('style', query.style);
+  if (query.creator) params.set('creator', query.creator);
+  if (query.from) params.set('from', query.from);
+  if (query.to) params.set('to', query.to);
+  for (const [type, value] of Object.entries(query.traits || {})) {
+    params.append('trait', `${type}:${value}`);
+  }
+  if (query.sort && query.sort !== 'newest') params.set('sort', query.sort);
+
+  return params;
+}
+
+/**
+ * Number of active filters (search and sort not included)
+ */
+export function countCollectionFilters(query: CollectionQuery): number {
+  return [query.style, query.creator, query.from, query.to].filter(Boolean).length
+    + Object.keys(query.traits || {}).length;
+}
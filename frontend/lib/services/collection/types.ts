@@ -0,0 +1,83 @@
+/**
+ * Collection Types
+ * Minted tokens as served by GET /api/collection - filtered, searched and sorted,
+ * with cursor pagination
+ */
+
+import type { NFTMetadata } from '../storageService';
+
+export interface CollectionToken {
+  tokenId: number;
+  creator: string;
+  owner?: string; // Current holder, from Transfer events
+  originalSketchHash: string; // Empty for tokens minted without a sketch
+  imageHash: string;
+  metadataHash: string;
+  style: string;
+  prompt?: string; // From getNFTData (not in the event)
+  createdAt?: number; // Unix seconds, from getNFTData
+  blockNumber: number;
+  txHash: string;
+  metadata?: NFTMetadata;
+  imageUrl: string;
+}
+
+export type CollectionSort = 'newest' | 'oldest' | 'tokenId';
+
+// Filters of a collection view - also the page's URL query (see collection/query.ts)
+export interface CollectionQuery {
+  q?: string; // Matched against metadata name, description and the prompt (every word)
+  style?: string;
+  creator?: string;
+  from?: string; // Minted on or after this UTC day (YYYY-MM-DD)
+  to?: string; // Minted on or before this UTC day (YYYY-MM-DD)
+  traits?: Record<string, string>; // trait_type -> value, all must match
+  sort?: CollectionSort; // Default: newest
+}
+
+// Values to offer as filters, across the whole collection
+export interface CollectionFacets {
+  styles: string[];
+  traits: Record<string, string[]>;
+}
+
+export interface CollectionPage {
+  tokens: CollectionToken[];
+  // Pass back as ?cursor= (with the same query) for the next page; null on the last page
+  nextCursor: string | null;
+  total: number; // All minted tokens
+  matched: number; // Tokens matching the query
+  facets: CollectionFacets;
+  syncedBlock: number;
+}
+
+// ERC-721 Transfer of a token (from is the zero address for the mint)
+export interface TokenTransfer {
+  from: string;
+  to: string;
+  blockNumber: number;
+  txHash: string;
+  logIndex: number;
+}
+
+// One token as served by GET /api/token/:id
+export interface TokenDetail {
+  token: CollectionToken;
+  transfers: TokenTransfer[]; // Oldest first
+  syncedBlock: number;
+}
+
+export interface StyleCount {
+  style: string;
+  count: number;
+}
+
+// Tokens of one wallet as served by GET /api/profile/:address, newest first
+export interface CollectionProfile {
+  address: string;
+  owned: CollectionToken[]; // Per getTokensOfOwner
+  created: CollectionToken[]; // Per NFTData.creator
+  ownedStyles: StyleCount[]; // Most used first
+  createdStyles: StyleCount[];
+  syncedBlock: number;
+}
@@ -0,0 +1,66 @@
+/**
+ * Collection Service - Client-side collection browsing
+ * Pages through minted tokens via /api/collection instead of querying every token,
+ * and loads wallet profiles and token pages from /api/profile/:address and /api/token/:id
+ */
+
+import { CollectionPage, CollectionProfile, CollectionQuery, TokenDetail } from './collection/types';
+import { toCollectionSearchParams } from './collection/query';
+
+export const COLLECTION_PAGE_SIZE = 24;
+
+/**
+ * One page of the tokens matching a query (newest first unless query.sort is set)
+ * @param cursor - nextCursor of the previous page for the same query (omit for the first page)
+ * @throws When the page could not be loaded
+ */
+export async function getCollectionPage(
+  query: CollectionQuery = {},
+  cursor?: string | null,
+  limit = COLLECTION_PAGE_SIZE
+): Promise<CollectionPage> {
+  const params = toCollectionSearchParams(query);
+  params.set('limit', String(limit));
+  if (cursor) params.set('cursor', cursor);
+
+  const response = await fetch(`/api/collection?${params}`);
+  const result = await response.json();
+
+  if (!response.ok || !result.success) {
+    throw new Error(result.details || result.error || 'Failed to load collection');
+  }
+
+  return result;
+}
+
+/**
+ * Tokens owned and created by a wallet
+ * @throws When the profile could not be loaded
+ */
+export async function getProfile(address: string): Promise<CollectionProfile> {
+  const response = await fetch(`/api/profile/${address}`);
+  const result = await response.json();
+
+  if (!response.ok || !result.success) {
+    throw new Error(result.details || result.error || 'Failed to load profile');
+  }
+
+  return result.profile;
+}
+
+/**
+ * One token with its transfer history
+ * @returns null when the token is not minted (or not indexed yet)
+ * @throws When the token could not be loaded
+ */
+export async function getToken(tokenId: number): Promise<TokenDetail | null> {
+  const response = await fetch(`/api/token/${tokenId}`);
+  const result = await response.json();
+
+  if (response.status === 404) return null;
+  if (!response.ok || !result.success) {
+    throw new Error(result.details || result.error || 'Failed to load token');
+  }
+
+  return result.detail;
+}
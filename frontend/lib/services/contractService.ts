@@ -6,8 +6,13 @@
 import { ethers } from 'ethers';
 
 // Contract configuration from environment variables
-const CONTRACT_ADDRESS = process.env.NEXT_PUBLIC_CONTRACT_ADDRESS || '0xbcFa72f21921a4ae2bff73F505440cDAED4831C2';
+const DEFAULT_CONTRACT_ADDRESS = '0xbcFa72f21921a4ae2bff73F505440cDAED4831C2';
+const CONTRACT_ADDRESS = process.env.NEXT_PUBLIC_CONTRACT_ADDRESS || DEFAULT_CONTRACT_ADDRESS;
+// Deployment transaction (DEPLOYMENT_INFO.md for the default contract) - locates the deployment block
+const CONTRACT_DEPLOY_TX = process.env.NEXT_PUBLIC_CONTRACT_DEPLOY_TX
+  || (CONTRACT_ADDRESS === DEFAULT_CONTRACT_ADDRESS ? '0x9076331718e536e13a992898dcaf023d029e299bc103a0bddb929c4257d92f24' : '');
 const CHAIN_ID = parseInt(process.env.NEXT_PUBLIC_0G_CHAIN_ID || '16602', 10);
+const RPC_URL = process.env.NEXT_PUBLIC_0G_RPC || 'https://evmrpc-testnet.0g.ai';
 
 // SketchNFT ABI - Only the functions we need
 const CONTRACT_ABI = [
@@ -24,6 +29,7 @@ const CONTRACT_ABI = [
   // Events
   'event NFTMinted(uint256 indexed tokenId, address indexed creator, string originalSketchHash, string coloredImageHash, string metadataHash, string style)',
   'event BatchMinted(address indexed creator, uint256[] tokenIds, uint256 count)',
+  'event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)',
 ];
 
 /**
@@ -41,9 +47,31 @@ export function getContractConfig() {
     address: CONTRACT_ADDRESS,
     chainId: CHAIN_ID,
     configured: isContractConfigured(),
+    deployTx: CONTRACT_DEPLOY_TX || null,
   };
 }
 
+/**
+ * Block the contract was deployed in, from its deployment transaction
+ * @returns Null when no deployment tx is configured or it did not create this contract
+ */
+export async function getDeploymentBlock(provider: ethers.Provider): Promise<number | null> {
+  if (!CONTRACT_DEPLOY_TX) return null;
+
+  const receipt = await provider.getTransactionReceipt(CONTRACT_DEPLOY_TX);
+  if (!receipt?.contractAddress || receipt.contractAddress.toLowerCase() !== CONTRACT_ADDRESS.toLowerCase()) {
+    return null;
+  }
+  return receipt.blockNumber;
+}
+
+/**
+ * Read-only provider for contract queries that don't need a wallet
+ */
+export function getReadProvider(): ethers.JsonRpcProvider {
+  return new ethers.JsonRpcProvider(RPC_URL);
+}
+
 /**
  * Get contract instance
  */
@@ -126,6 +154,17 @@ export async function mintNFT(
   }
 }
 
+// NFTs per batchMint transaction when minting a whole collection
+export const MINT_BATCH_SIZE = 5;
+
+export interface BatchMintItem {
+  imageHash: string;
+  metadataHash: string;
+  style: string;
+  prompt: string;
+  originalHash?: string;
+}
+
 /**
  * Batch mint multiple NFTs in a single transaction
  * @param signer - ethers.js signer from wallet
@@ -134,13 +173,7 @@ export async function mintNFT(
  */
 export async function batchMintNFTs(
   signer: ethers.Signer,
-  nfts: Array<{
-    imageHash: string;
-    metadataHash: string;
-    style: string;
-    prompt: string;
-    originalHash?: string;
-  }>
+  nfts: BatchMintItem[]
 ): Promise<{ txHash: string; tokenIds: number[] }> {
   if (!CONTRACT_ADDRESS) {
     throw new Error('Contract address not configured');
@@ -251,6 +284,131 @@ export async function getTotalMinted(provider: ethers.Provider): Promise<number>
   return Number(await contract.totalMinted());
 }
 
+/**
+ * Estimate the gas of one batchMint transaction without sending it
+ * @param to - Minting wallet (also the simulated sender)
+ */
+export async function estimateBatchMintGas(
+  provider: ethers.Provider,
+  to: string,
+  nfts: BatchMintItem[]
+): Promise<bigint> {
+  const contract = new ethers.Contract(CONTRACT_ADDRESS, CONTRACT_ABI, provider);
+
+  return contract.batchMint.estimateGas(
+    to,
+    nfts.map(n => n.originalHash || ''),
+    nfts.map(n => n.imageHash),
+    nfts.map(n => n.metadataHash),
+    nfts.map(n => n.style),
+    nfts.map(n => n.prompt),
+    { from: to }
+  );
+}
+
+/**
+ * NFTMinted event as emitted by mint / batchMint
+ */
+export interface MintEvent {
+  kind: 'mint';
+  tokenId: number;
+  creator: string;
+  originalSketchHash: string;
+  coloredImageHash: string;
+  metadataHash: string;
+  style: string;
+  blockNumber: number;
+  blockHash: string;
+  txHash: string;
+  logIndex: number;
+}
+
+/**
+ * BatchMinted event - emitted once per batchMint, after the NFTMinted of each token
+ */
+export interface BatchMintEvent {
+  kind: 'batch';
+  creator: string;
+  tokenIds: number[];
+  blockNumber: number;
+  blockHash: string;
+  txHash: string;
+  logIndex: number;
+}
+
+/**
+ * ERC-721 Transfer event (from is the zero address for mints)
+ */
+export interface TransferEvent {
+  kind: 'transfer';
+  tokenId: number;
+  from: string;
+  to: string;
+  blockNumber: number;
+  blockHash: string;
+  txHash: string;
+  logIndex: number;
+}
+
+export type ContractEvent = MintEvent | BatchMintEvent | TransferEvent;
+
+/**
+ * Get NFTMinted, BatchMinted and Transfer events in a block range (inclusive), in log order.
+ * One getLogs request - keep ranges within the RPC's limit.
+ */
+export async function getContractEvents(
+  provider: ethers.Provider,
+  fromBlock: number,
+  toBlock: number
+): Promise<ContractEvent[]> {
+  const iface = new ethers.Interface(CONTRACT_ABI);
+  const topics = ['NFTMinted', 'BatchMinted', 'Transfer'].map(name => iface.getEvent(name)!.topicHash);
+  const logs = await provider.getLogs({ address: CONTRACT_ADDRESS, topics: [topics], fromBlock, toBlock });
+  const events: ContractEvent[] = [];
+
+  for (const log of logs) {
+    const parsed = iface.parseLog({ topics: log.topics as string[], data: log.data });
+    if (!parsed) continue;
+
+    const position = {
+      blockNumber: log.blockNumber,
+      blockHash: log.blockHash,
+      txHash: log.transactionHash,
+      logIndex: log.index,
+    };
+
+    if (parsed.name === 'NFTMinted') {
+      events.push({
+        kind: 'mint',
+        tokenId: Number(parsed.args.tokenId),
+        creator: parsed.args.creator,
+        originalSketchHash: parsed.args.originalSketchHash,
+        coloredImageHash: parsed.args.coloredImageHash,
+        metadataHash: parsed.args.metadataHash,
+        style: parsed.args.style,
+        ...position,
+      });
+    } else if (parsed.name === 'BatchMinted') {
+      events.push({
+        kind: 'batch',
+        creator: parsed.args.creator,
+        tokenIds: parsed.args.tokenIds.map((id: bigint) => Number(id)),
+        ...position,
+      });
+    } else {
+      events.push({
+        kind: 'transfer',
+        tokenId: Number(parsed.args.tokenId),
+        from: parsed.args.from,
+        to: parsed.args.to,
+        ...position,
+      });
+    }
+  }
+
+  return events.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+}
+
 /**
  * Get 0G Explorer URL for transaction
  */
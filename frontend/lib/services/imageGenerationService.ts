@@ -7,12 +7,19 @@ export interface ImageGenerationRequest {
   prompt: string;
   style?: string;
   resolution?: '1K' | '2K' | '4K';
+  aspectRatio?: string;
 }
 
 export interface ImageGenerationResponse {
   success: boolean;
   imageUrl?: string;
   prompt?: string;
+  provider?: string;
+  resolution?: '1K' | '2K' | '4K';
+  aspectRatio?: string;
+  // Actual pixel dimensions of the generated image
+  width?: number;
+  height?: number;
   metadata?: {
     style?: string;
     resolution?: string;
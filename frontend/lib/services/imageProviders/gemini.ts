@@ -0,0 +1,125 @@
+/**
+ * Gemini Image Provider
+ * Gemini 3 Pro Image Preview (requires billing), supports reference images
+ */
+
+import type { Part } from '@google/genai';
+import { AspectRatio, ImageResolution } from '@/lib/types';
+import { formatTraitsForPrompt } from '../traitService';
+import { ImageGenerationParams, ImageProvider } from './types';
+
+const GEMINI_API_KEY = process.env.GEMINI_API_KEY;
+
+// Generate image using Gemini 3 Pro Image Preview (same as anita project)
+async function generateWithGemini({ prompt, style, resolution, aspectRatio, referenceImage, seed, traits }: ImageGenerationParams): Promise<string> {
+  const { GoogleGenAI } = await import('@google/genai');
+  const ai = new GoogleGenAI({ apiKey: GEMINI_API_KEY! });
+
+  const variationMatch = prompt.match(/variation (\d+)/i);
+  const variationNumber = variationMatch ? parseInt(variationMatch[1]) : 1;
+  const basePrompt = prompt.replace(/\s*-\s*variation\s*\d+/i, '').trim();
+
+  // Sampled traits replace the open-ended "randomize" instructions
+  const traitList = traits?.length
+    ? `(a value of "None" means leave that layer out):\n${formatTraitsForPrompt(traits)}`
+    : '';
+
+  let fullPrompt: string;
+  let contentParts: Part[];
+
+  if (referenceImage) {
+    fullPrompt = `Generate NFT variation #${variationNumber} that EXACTLY MATCHES the character shown in the reference image.
+
+CRITICAL: The character must be IDENTICAL to the reference image in these aspects:
+- Same species/type
+- Same pose and body structure
+- Same art style and proportions
+- Same perspective and angle
+- Same level of detail
+
+${traitList ? `APPLY EXACTLY THESE TRAITS ${traitList}` : `ONLY CHANGE THESE TRAIT LAYERS (randomize):
+1. Background color/pattern
+2. Fur/skin color or pattern
+3. Eyes (color, expression)
+4. Clothing/outfit
+5. Accessories (hat, glasses, jewelry)
+6. Facial expression
+7. Special effects (glow, aura, etc.)`}
+
+ARTISTIC STYLE: ${style}
+
+Generate a new variation with ${traitList ? 'exactly the traits listed above' : '2-4 randomized traits'} while keeping the BASE CHARACTER exactly the same as shown in the reference image.`;
+
+    contentParts = [
+      { text: fullPrompt },
+      {
+        inlineData: {
+          mimeType: referenceImage.mimeType || 'image/png',
+          data: referenceImage.data
+        }
+      }
+    ];
+  } else {
+    fullPrompt = `Generate the FIRST NFT in a collection - this will be the BASE CHARACTER template for the entire collection.
+
+SUBJECT: ${basePrompt}
+ARTISTIC STYLE: ${style}
+
+REQUIREMENTS FOR BASE CHARACTER:
+1. Create a distinctive, memorable character that can have variations
+2. Simple, clean design that works well with different accessories/colors
+3. Centered composition (character takes 60-80% of frame)
+4. Clear, bold colors and high contrast
+5. Professional ${style} art style
+6. Same perspective/angle that can be replicated
+7. Expression should be neutral or slightly positive (easy to vary later)
+8. No text, watermarks, or numbers
+${traitList && `\nTRAITS FOR THIS NFT ${traitList}\n`}
+This is variation #1 - the foundation for the entire collection. Keep it clean and versatile for future variations.`;
+
+    contentParts = [{ text: fullPrompt }];
+  }
+
+  console.log('[API] Using Gemini 3 Pro Image Preview...');
+  console.log('[API] Full prompt:', fullPrompt);
+  console.log('[API] Has reference image:', !!referenceImage);
+  console.log('[API] Image size:', resolution, aspectRatio);
+
+  const response = await ai.models.generateContent({
+    model: 'gemini-3-pro-image-preview',
+    contents: {
+      parts: contentParts,
+    },
+    config: {
+      seed,
+      imageConfig: {
+        aspectRatio,
+        imageSize: resolution,
+      },
+    },
+  });
+
+  const responseParts = response.candidates?.[0]?.content?.parts || [];
+  for (const part of responseParts) {
+    if (part.inlineData) {
+      return `data:${part.inlineData.mimeType || 'image/png'};base64,${part.inlineData.data}`;
+    }
+  }
+
+  throw new Error('No image in Gemini response');
+}
+
+export const geminiProvider: ImageProvider = {
+  id: 'gemini',
+  name: 'Gemini',
+  capabilities: {
+    supportsReferenceImage: true,
+    supportedResolutions: [ImageResolution.RES_1K, ImageResolution.RES_2K, ImageResolution.RES_4K],
+    supportedAspectRatios: Object.values(AspectRatio),
+    supportsSeed: true,
+    costClass: 'premium',
+  },
+  setupHint: 'Add GEMINI_API_KEY (requires billing) to .env.local',
+  isConfigured: () => !!GEMINI_API_KEY,
+  generate: generateWithGemini,
+};
@@ -0,0 +1,95 @@
+/**
+ * Image Generation Runner
+ * Runs a selected provider with rate-limit retries and measures the result.
+ * Shared by /api/generate-image and the server-side generation job worker.
+ */
+
+import { AspectRatio, ImageResolution } from '@/lib/types';
+import { getDataUrlDimensions, getTargetDimensions } from '../imageUtils';
+import { ImageGenerationParams, ImageProvider } from './types';
+
+export interface GeneratedImage {
+  imageUrl: string;
+  provider: string;
+  // Display name of the provider, recorded as the metadata Generator
+  providerName: string;
+  resolution: ImageResolution;
+  aspectRatio: AspectRatio;
+  seed?: number;
+  // Actual pixel size of the returned image
+  width: number;
+  height: number;
+}
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function retryOperation<T>(
+  operation: () => Promise<T>,
+  retries = 3,
+  baseDelay = 3000
+): Promise<T> {
+  try {
+    return await operation();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const status = typeof error === 'object' && error !== null && 'status' in error ? error.status : undefined;
+    const isRateLimit = message.includes('429') || message.includes('Quota') || status === 429;
+
+    if (retries > 0 && isRateLimit) {
+      const jitter = Math.random() * 1000;
+      const delay = baseDelay + jitter;
+      console.warn(`[API] Rate limit hit. Retrying in ${Math.round(delay)}ms... (${retries} retries left)`);
+      await wait(delay);
+      return retryOperation(operation, retries - 1, baseDelay * 2);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Check resolution / aspect ratio values coming from a request body
+ * @returns Error message, or null if valid
+ */
+export function validateImageOptions(resolution: unknown, aspectRatio: unknown): string | null {
+  if (!Object.values(ImageResolution).includes(resolution as ImageResolution)) {
+    return `Invalid resolution. Use one of: ${Object.values(ImageResolution).join(', ')}`;
+  }
+
+  if (!Object.values(AspectRatio).includes(aspectRatio as AspectRatio)) {
+    return `Invalid aspect ratio. Use one of: ${Object.values(AspectRatio).join(', ')}`;
+  }
+
+  return null;
+}
+
+/**
+ * Check whether an error is a provider rate limit / quota error
+ */
+export function isQuotaError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error);
+  return message.includes('429') || message.includes('Quota');
+}
+
+/**
+ * Generate an image with the given provider
+ */
+export async function generateWithProvider(
+  provider: ImageProvider,
+  params: ImageGenerationParams
+): Promise<GeneratedImage> {
+  const imageUrl = await retryOperation(() => provider.generate(params));
+
+  // Report what the provider actually produced, not the requested tier
+  const dimensions = getDataUrlDimensions(imageUrl) || getTargetDimensions(params.resolution, params.aspectRatio);
+
+  return {
+    imageUrl,
+    provider: provider.id,
+    providerName: provider.name,
+    resolution: params.resolution,
+    aspectRatio: params.aspectRatio,
+    seed: params.seed,
+    width: dimensions.width,
+    height: dimensions.height,
+  };
+}
@@ -0,0 +1,17 @@
+/**
+ * Image Providers
+ * Built-in providers are registered here in priority order.
+ * To add a backend, create a module exporting an ImageProvider and register it below.
+ */
+
+import { registerImageProvider } from './registry';
+import { togetherProvider } from './together';
+import { geminiProvider } from './gemini';
+
+// Together.ai first (has free tier), Gemini handles reference images
+registerImageProvider(togetherProvider);
+registerImageProvider(geminiProvider);
+
+export * from './types';
+export * from './registry';
+export * from './generate';
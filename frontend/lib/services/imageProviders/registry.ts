@@ -0,0 +1,123 @@
+/**
+ * Image Provider Registry
+ * Providers register themselves here; the API route selects from the registry
+ * instead of hard-coding backends.
+ */
+
+import { ImageProvider, ImageProviderRequirements } from './types';
+
+// Insertion order is the selection priority
+const providers = new Map<string, ImageProvider>();
+
+export interface ProviderSelection {
+  provider?: ImageProvider;
+  error?: string;
+  details?: string;
+  // HTTP status to report when no provider could be selected
+  status?: number;
+}
+
+/**
+ * Register an image provider (replaces any provider with the same id)
+ */
+export function registerImageProvider(provider: ImageProvider): void {
+  providers.set(provider.id, provider);
+}
+
+/**
+ * Look up a provider by id
+ */
+export function getImageProvider(id: string): ImageProvider | undefined {
+  return providers.get(id);
+}
+
+/**
+ * All registered providers in priority order
+ */
+export function listImageProviders(): ImageProvider[] {
+  return Array.from(providers.values());
+}
+
+/**
+ * Check whether a provider supports every feature a request needs
+ * @returns Reason the provider is unsuitable, or null if it fits
+ */
+export function getUnsupportedReason(
+  provider: ImageProvider,
+  requirements: ImageProviderRequirements
+): string | null {
+  const { capabilities } = provider;
+
+  if (requirements.referenceImage && !capabilities.supportsReferenceImage) {
+    return `${provider.name} does not support reference images`;
+  }
+
+  if (!capabilities.supportedResolutions.includes(requirements.resolution)) {
+    return `${provider.name} does not support ${requirements.resolution} resolution (supported: ${capabilities.supportedResolutions.join(', ')})`;
+  }
+
+  if (!capabilities.supportedAspectRatios.includes(requirements.aspectRatio)) {
+    return `${provider.name} does not support ${requirements.aspectRatio} aspect ratio (supported: ${capabilities.supportedAspectRatios.join(', ')})`;
+  }
+
+  if (requirements.seed && !capabilities.supportsSeed) {
+    return `${provider.name} does not support seeds`;
+  }
+
+  return null;
+}
+
+/**
+ * Select a provider for a request
+ * If a provider id is given it must exist, be configured and support the request.
+ * Otherwise the first configured provider that supports the request is used.
+ */
+export function selectImageProvider(
+  requirements: ImageProviderRequirements,
+  providerId?: string
+): ProviderSelection {
+  if (providerId) {
+    const provider = providers.get(providerId);
+
+    if (!provider) {
+      return {
+        error: `Unknown image provider: ${providerId}`,
+        details: `Available providers: ${Array.from(providers.keys()).join(', ')}`,
+        status: 400,
+      };
+    }
+
+    if (!provider.isConfigured()) {
+      return { error: `${provider.name} is not configured`, details: provider.setupHint, status: 500 };
+    }
+
+    const reason = getUnsupportedReason(provider, requirements);
+    if (reason) {
+      return { error: 'Requested provider cannot handle this request', details: reason, status: 400 };
+    }
+
+    return { provider };
+  }
+
+  const configured = listImageProviders().filter(p => p.isConfigured());
+
+  if (configured.length === 0) {
+    return {
+      error: 'No AI API key configured',
+      details: listImageProviders().map(p => p.setupHint).join(' or '),
+      status: 500,
+    };
+  }
+
+  const provider = configured.find(p => getUnsupportedReason(p, requirements) === null);
+
+  if (!provider) {
+    return {
+      error: 'No configured provider supports this request',
+      details: configured.map(p => getUnsupportedReason(p, requirements)).join('; '),
+      status: 400,
+    };
+  }
+
+  return { provider };
+}
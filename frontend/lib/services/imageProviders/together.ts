@@ -0,0 +1,70 @@
+/**
+ * Together.ai Image Provider
+ * Flux Schnell model - has $5 free credits, get key from https://api.together.xyz/
+ * Text-to-image only: reference images are not supported.
+ * Flux Schnell caps width/height at 1792px, so only 1K is offered.
+ */
+
+import { AspectRatio, ImageResolution } from '@/lib/types';
+import { getTargetDimensions } from '../imageUtils';
+import { formatTraitsForPrompt } from '../traitService';
+import { ImageGenerationParams, ImageProvider } from './types';
+
+const TOGETHER_API_KEY = process.env.TOGETHER_API_KEY;
+
+async function generateWithTogether({ prompt, style, resolution, aspectRatio, seed, traits }: ImageGenerationParams): Promise<string> {
+  const traitText = traits?.length ? `\nTraits:\n${formatTraitsForPrompt(traits)}\n` : ' ';
+  const fullPrompt = `${style} style NFT artwork: ${prompt}.${traitText}High quality, centered composition, vibrant colors, no text or watermarks.`;
+
+  const { width, height } = getTargetDimensions(resolution, aspectRatio);
+
+  console.log('[API] Using Together.ai Flux model...');
+  console.log('[API] Full prompt:', fullPrompt);
+
+  const response = await fetch('https://api.together.xyz/v1/images/generations', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${TOGETHER_API_KEY}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      model: 'black-forest-labs/FLUX.1-schnell-Free',
+      prompt: fullPrompt,
+      width,
+      height,
+      steps: 4,
+      n: 1,
+      ...(seed !== undefined && { seed }),
+      response_format: 'b64_json',
+    }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error?.message || `Together API error: ${response.status}`);
+  }
+
+  const data = await response.json();
+  const base64 = data.data?.[0]?.b64_json;
+
+  if (!base64) {
+    throw new Error('No image data in response');
+  }
+
+  return `data:image/png;base64,${base64}`;
+}
+
+export const togetherProvider: ImageProvider = {
+  id: 'together',
+  name: 'Together.ai',
+  capabilities: {
+    supportsReferenceImage: false,
+    supportedResolutions: [ImageResolution.RES_1K],
+    supportedAspectRatios: Object.values(AspectRatio),
+    supportsSeed: true,
+    costClass: 'free',
+  },
+  setupHint: 'Add TOGETHER_API_KEY (free: https://api.together.xyz) to .env.local',
+  isConfigured: () => !!TOGETHER_API_KEY,
+  generate: generateWithTogether,
+};
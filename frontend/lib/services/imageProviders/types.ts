@@ -0,0 +1,58 @@
+/**
+ * Image Provider Types
+ * Shared contract for every image generation backend behind /api/generate-image
+ */
+
+import { AspectRatio, ImageResolution, ItemTrait } from '@/lib/types';
+
+/**
+ * Rough cost tier of a provider (informational - selection follows registration order)
+ */
+export type ProviderCostClass = 'free' | 'standard' | 'premium';
+
+export interface ImageProviderCapabilities {
+  // Provider can condition generation on a reference image
+  supportsReferenceImage: boolean;
+  // Output resolutions the provider can produce
+  supportedResolutions: ImageResolution[];
+  // Canvas formats the provider can produce
+  supportedAspectRatios: AspectRatio[];
+  // Provider accepts a seed for repeatable output
+  supportsSeed: boolean;
+  costClass: ProviderCostClass;
+}
+
+export interface ReferenceImage {
+  mimeType: string;
+  data: string; // Base64 without the data URL prefix
+}
+
+export interface ImageGenerationParams {
+  prompt: string;
+  style: string;
+  resolution: ImageResolution;
+  aspectRatio: AspectRatio;
+  referenceImage?: ReferenceImage;
+  seed?: number;
+  traits?: ItemTrait[]; // Exact traits to render instead of letting the model pick
+}
+
+export interface ImageProvider {
+  id: string;
+  name: string;
+  capabilities: ImageProviderCapabilities;
+  // Hint shown when the provider is requested but not configured
+  setupHint: string;
+  isConfigured(): boolean;
+  generate(params: ImageGenerationParams): Promise<string>;
+}
+
+/**
+ * Features a request needs from a provider
+ */
+export interface ImageProviderRequirements {
+  referenceImage: boolean;
+  resolution: ImageResolution;
+  aspectRatio: AspectRatio;
+  seed?: boolean;
+}
@@ -0,0 +1,133 @@
+/**
+ * Image Utilities
+ * Reads pixel dimensions straight from encoded image headers (PNG, JPEG, WebP)
+ * and computes target canvas sizes for resolution + aspect ratio
+ */
+
+import { AspectRatio, ImageResolution, RESOLUTION_PIXELS } from '@/lib/types';
+
+export interface ImageDimensions {
+  width: number;
+  height: number;
+}
+
+/**
+ * Decode the base64 payload of a data URL into bytes
+ */
+export function dataUrlToBytes(dataUrl: string): Uint8Array | null {
+  const match = dataUrl.match(/^data:[^;]+;base64,(.+)$/);
+  if (!match) return null;
+
+  const binaryString = atob(match[1]);
+  const bytes = new Uint8Array(binaryString.length);
+  for (let i = 0; i < binaryString.length; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function readUint16BE(bytes: Uint8Array, offset: number): number {
+  return (bytes[offset] << 8) | bytes[offset + 1];
+}
+
+function readUint32BE(bytes: Uint8Array, offset: number): number {
+  return ((bytes[offset] << 24) >>> 0) + (bytes[offset + 1] << 16) + (bytes[offset + 2] << 8) + bytes[offset + 3];
+}
+
+function readUint16LE(bytes: Uint8Array, offset: number): number {
+  return bytes[offset] | (bytes[offset + 1] << 8);
+}
+
+function readUint24LE(bytes: Uint8Array, offset: number): number {
+  return bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16);
+}
+
+/**
+ * Read width/height from PNG, JPEG or WebP bytes
+ * @returns Dimensions, or null if the format is not recognised
+ */
+export function getImageDimensions(bytes: Uint8Array): ImageDimensions | null {
+  // PNG: signature + IHDR chunk
+  if (bytes.length >= 24 && bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47) {
+    return { width: readUint32BE(bytes, 16), height: readUint32BE(bytes, 20) };
+  }
+
+  // JPEG: walk segments until a start-of-frame marker
+  if (bytes.length >= 4 && bytes[0] === 0xff && bytes[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 9 < bytes.length) {
+      if (bytes[offset] !== 0xff) return null;
+      const marker = bytes[offset + 1];
+      const isStartOfFrame = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+      if (isStartOfFrame) {
+        return { width: readUint16BE(bytes, offset + 7), height: readUint16BE(bytes, offset + 5) };
+      }
+      offset += 2 + readUint16BE(bytes, offset + 2);
+    }
+    return null;
+  }
+
+  // WebP: RIFF container with VP8 / VP8L / VP8X chunk
+  if (bytes.length >= 30 && bytes[0] === 0x52 && bytes[1] === 0x49 && bytes[8] === 0x57 && bytes[9] === 0x45) {
+    const chunk = String.fromCharCode(bytes[12], bytes[13], bytes[14], bytes[15]);
+    if (chunk === 'VP8 ') {
+      return { width: readUint16LE(bytes, 26) & 0x3fff, height: readUint16LE(bytes, 28) & 0x3fff };
+    }
+    if (chunk === 'VP8L') {
+      const bits = bytes[21] | (bytes[22] << 8) | (bytes[23] << 16) | (bytes[24] << 24);
+      return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+    }
+    if (chunk === 'VP8X') {
+      return { width: readUint24LE(bytes, 24) + 1, height: readUint24LE(bytes, 27) + 1 };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Read dimensions from a base64 data URL
+ */
+export function getDataUrlDimensions(dataUrl: string): ImageDimensions | null {
+  const bytes = dataUrlToBytes(dataUrl);
+  return bytes ? getImageDimensions(bytes) : null;
+}
+
+/**
+ * Format dimensions as "WIDTHxHEIGHT"
+ */
+export function formatDimensions({ width, height }: ImageDimensions): string {
+  return `${width}x${height}`;
+}
+
+/**
+ * Parse a "WIDTHxHEIGHT" string (as written to metadata) back into dimensions
+ */
+export function parseDimensions(value: string | undefined): ImageDimensions | null {
+  const match = value?.match(/^(\d+)x(\d+)$/);
+  if (!match) return null;
+  return { width: parseInt(match[1], 10), height: parseInt(match[2], 10) };
+}
+
+/**
+ * Convert an aspect ratio like "16:9" to a CSS aspect-ratio value ("16 / 9")
+ */
+export function toCssAspectRatio(aspectRatio: string): string {
+  return aspectRatio.replace(':', ' / ');
+}
+
+/**
+ * Target pixel size for a resolution tier and aspect ratio
+ * Keeps roughly the same pixel area as the square tier, snapped to a multiple of 16
+ */
+export function getTargetDimensions(
+  resolution: ImageResolution,
+  aspectRatio: AspectRatio = AspectRatio.SQUARE
+): ImageDimensions {
+  const edge = RESOLUTION_PIXELS[resolution];
+  const [w, h] = aspectRatio.split(':').map(Number);
+  const scale = Math.sqrt((edge * edge) / (w * h));
+  const snap = (value: number) => Math.max(16, Math.round(value / 16) * 16);
+
+  return { width: snap(w * scale), height: snap(h * scale) };
+}
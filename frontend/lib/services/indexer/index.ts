@@ -0,0 +1,10 @@
+/**
+ * NFT Indexer
+ * Server-only: contract event index behind GET /api/collection, /api/profile/:address,
+ * /api/token/:id and /api/indexer
+ */
+
+export * from './types';
+export { getIndexer } from './indexer';
+export { getIndexerStore } from './store';
+export type { IndexerStore } from './store';
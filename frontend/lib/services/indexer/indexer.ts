@@ -0,0 +1,547 @@
+/**
+ * NFT Indexer
+ * Backfills NFTMinted / BatchMinted / Transfer logs from the contract's deployment block
+ * (INDEXER_START_BLOCK, or looked up from its deployment tx) in INDEXER_LOG_RANGE chunks,
+ * then follows new blocks by polling. Queries are served from what is indexed so far
+ * while a backfill runs.
+ * When the last indexed block's hash changes (reorg, or a reset local node) the index is
+ * rewound by INDEXER_CONFIRMATIONS blocks and re-read from there.
+ */
+
+import { ethers } from 'ethers';
+import {
+  ContractEvent,
+  getContractConfig,
+  getContractEvents,
+  getDeploymentBlock,
+  getNFTData,
+  getReadProvider,
+  getTokensOfOwner,
+} from '../contractService';
+import { getMockStorage, getStorageBackend } from '../storage';
+import { getStorageUrl, NFTMetadata } from '../storageService';
+import {
+  CollectionFacets,
+  CollectionPage,
+  CollectionProfile,
+  CollectionQuery,
+  CollectionSort,
+  StyleCount,
+  TokenDetail,
+} from '../collection/types';
+import { getIndexerStore, IndexerStore } from './store';
+import { IndexedToken, IndexerData, IndexerStatus } from './types';
+
+// Unset = the block of the contract config's deployment tx
+const INDEXER_START_BLOCK = process.env.INDEXER_START_BLOCK ? parseInt(process.env.INDEXER_START_BLOCK, 10) : null;
+const INDEXER_LOG_RANGE = parseInt(process.env.INDEXER_LOG_RANGE || '10000', 10);
+const INDEXER_CONFIRMATIONS = parseInt(process.env.INDEXER_CONFIRMATIONS || '12', 10);
+// Background polling for new blocks (ms); 0 = sync only when the index is queried
+const INDEXER_POLL_INTERVAL = parseInt(process.env.INDEXER_POLL_INTERVAL || '15000', 10);
+
+// Queries re-check the chain at most this often
+const SYNC_INTERVAL_MS = 10 * 1000;
+// Tokens enriched in parallel (getNFTData + metadata each)
+const ENRICH_CONCURRENCY = 6;
+// Trait types with more distinct values than this are not offered as filters
+const TRAIT_FACET_MAX_VALUES = 50;
+
+const SORTS: Record<CollectionSort, (a: IndexedToken, b: IndexedToken) => number> = {
+  newest: (a, b) => b.blockNumber - a.blockNumber || b.tokenId - a.tokenId,
+  oldest: (a, b) => a.blockNumber - b.blockNumber || a.tokenId - b.tokenId,
+  tokenId: (a, b) => a.tokenId - b.tokenId,
+};
+
+function emptyData(chainId: number, contract: string): IndexerData {
+  return {
+    chainId,
+    contract,
+    // Nothing indexed yet - raised to the block before the start block on the first sync
+    syncedBlock: -1,
+    syncedBlockHash: null,
+    tokens: {},
+    transfers: [],
+    creators: {},
+    styles: {},
+    updatedAt: Date.now(),
+  };
+}
+
+/**
+ * Predicate for the tokens matching a collection query
+ */
+function createFilter(query: CollectionQuery): (token: IndexedToken) => boolean {
+  const terms = query.q ? query.q.toLowerCase().split(/\s+/) : [];
+  const creator = query.creator?.toLowerCase();
+  // UTC days -> unix seconds, `to` inclusive
+  const from = query.from ? Date.parse(`${query.from}T00:00:00Z`) / 1000 : null;
+  const to = query.to ? Date.parse(`${query.to}T00:00:00Z`) / 1000 + 24 * 60 * 60 - 1 : null;
+  const traits = Object.entries(query.traits || {});
+
+  return token => {
+    if (query.style && token.style !== query.style) return false;
+    if (creator && token.creator.toLowerCase() !== creator) return false;
+    if (from !== null && (!token.createdAt || token.createdAt < from)) return false;
+    if (to !== null && (!token.createdAt || token.createdAt > to)) return false;
+
+    if (traits.length > 0) {
+      const attributes = token.metadata?.attributes || [];
+      const matches = traits.every(([type, value]) =>
+        attributes.some(attribute => attribute.trait_type === type && String(attribute.value) === value)
+      );
+      if (!matches) return false;
+    }
+
+    if (terms.length > 0) {
+      const text = [token.metadata?.name, token.metadata?.description, token.prompt].join(' ').toLowerCase();
+      if (!terms.every(term => text.includes(term))) return false;
+    }
+
+    return true;
+  };
+}
+
+function countStyles(tokens: IndexedToken[]): StyleCount[] {
+  const counts = new Map<string, number>();
+  for (const token of tokens) {
+    counts.set(token.style, (counts.get(token.style) || 0) + 1);
+  }
+  return [...counts].map(([style, count]) => ({ style, count })).sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Metadata JSON of a token - configured backend first, then dev-mode mock storage
+ */
+async function loadMetadata(metadataHash: string): Promise<NFTMetadata | null> {
+  const bytes = await getStorageBackend().get(metadataHash) ?? await getMockStorage().get(metadataHash);
+  if (!bytes) return null;
+
+  try {
+    return JSON.parse(Buffer.from(bytes).toString('utf-8'));
+  } catch {
+    return null;
+  }
+}
+
+export class NftIndexer {
+  private loading: Promise<IndexerData> | null = null;
+  // Token ids newest first and filter values, rebuilt with the creator / style indexes
+  private order: number[] = [];
+  private facets: CollectionFacets = { styles: [], traits: {} };
+  private lastSyncAt = 0;
+  private lastError: string | null = null;
+  private syncing: Promise<void> | null = null;
+  // The last sync reached the chain head - queries wait for the next (short) one
+  private caughtUp = false;
+  private startBlock: number | null = INDEXER_START_BLOCK;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(private store: IndexerStore) {}
+
+  private load(): Promise<IndexerData> {
+    if (!this.loading) {
+      const { address, chainId } = getContractConfig();
+      this.loading = this.store.load(chainId, address).then(data => {
+        const loaded = data || emptyData(chainId, address);
+        this.rebuildIndexes(loaded);
+        return loaded;
+      });
+      // Retry the load on the next call if the store could not be read
+      this.loading.catch(() => {
+        this.loading = null;
+      });
+    }
+    return this.loading;
+  }
+
+  /**
+   * Poll for new blocks in the background (no-op when INDEXER_POLL_INTERVAL=0)
+   */
+  start(): void {
+    if (this.timer || INDEXER_POLL_INTERVAL <= 0) return;
+
+    this.timer = setInterval(() => {
+      this.sync().catch(() => {
+        // Recorded in lastError; the next poll retries
+      });
+    }, INDEXER_POLL_INTERVAL);
+    this.timer.unref?.();
+  }
+
+  /**
+   * Index up to the latest block (throttled; concurrent callers share one sync)
+   */
+  async sync(): Promise<void> {
+    if (Date.now() - this.lastSyncAt < SYNC_INTERVAL_MS) return;
+
+    if (!this.syncing) {
+      this.syncing = this.syncBlocks()
+        .then(() => {
+          this.lastError = null;
+        })
+        .catch(error => {
+          this.caughtUp = false;
+          this.lastError = error instanceof Error ? error.message : String(error);
+          console.warn('[Indexer] Sync failed:', this.lastError);
+          throw error;
+        })
+        .finally(() => {
+          this.syncing = null;
+        });
+    }
+    return this.syncing;
+  }
+
+  private async syncBlocks(): Promise<void> {
+    const data = await this.load();
+    const provider = getReadProvider();
+    const [latest, start] = await Promise.all([provider.getBlockNumber(), this.getStartBlock(provider)]);
+
+    await this.checkReorg(provider, data, latest, start);
+    data.syncedBlock = Math.max(data.syncedBlock, start - 1);
+    // More than one chunk behind - queries stop waiting for this sync
+    if (latest - data.syncedBlock > INDEXER_LOG_RANGE) this.caughtUp = false;
+
+    const before = Object.keys(data.tokens).length;
+
+    for (let from = data.syncedBlock + 1; from <= latest; from += INDEXER_LOG_RANGE) {
+      const to = Math.min(from + INDEXER_LOG_RANGE - 1, latest);
+      const [events, block] = await Promise.all([
+        getContractEvents(provider, from, to),
+        provider.getBlock(to),
+      ]);
+
+      this.apply(data, events);
+      data.syncedBlock = to;
+      data.syncedBlockHash = block?.hash ?? null;
+      // Persist each chunk so a failed or interrupted backfill resumes from here
+      await this.save(data);
+    }
+
+    const added = Object.keys(data.tokens).length - before;
+    if (added !== 0) {
+      console.log(`[Indexer] Synced to block ${data.syncedBlock}: ${this.order.length} tokens (${added > 0 ? '+' : ''}${added})`);
+    }
+
+    if (await this.enrich(data)) {
+      await this.save(data);
+    }
+    this.lastSyncAt = Date.now();
+    this.caughtUp = true;
+  }
+
+  /**
+   * INDEXER_START_BLOCK, or the contract's deployment block
+   */
+  private async getStartBlock(provider: ethers.Provider): Promise<number> {
+    if (this.startBlock === null) {
+      const block = await getDeploymentBlock(provider);
+      if (block === null) {
+        throw new Error('Contract deployment block is unknown - set INDEXER_START_BLOCK or NEXT_PUBLIC_CONTRACT_DEPLOY_TX');
+      }
+      console.log(`[Indexer] Indexing from deployment block ${block}`);
+      this.startBlock = block;
+    }
+    return this.startBlock;
+  }
+
+  /**
+   * Rewind when the last indexed block is no longer on the chain
+   */
+  private async checkReorg(provider: ethers.Provider, data: IndexerData, latest: number, start: number): Promise<void> {
+    if (data.syncedBlockHash === null) return;
+
+    if (latest < data.syncedBlock) {
+      // The chain is shorter than the index - a reset local node; re-read everything
+      console.warn(`[Indexer] Chain head ${latest} is behind indexed block ${data.syncedBlock}, re-indexing from ${start}`);
+      await this.rewind(data, start - 1);
+      return;
+    }
+
+    const block = await provider.getBlock(data.syncedBlock);
+    if (block?.hash === data.syncedBlockHash) return;
+
+    const target = Math.max(data.syncedBlock - INDEXER_CONFIRMATIONS, start - 1);
+    console.warn(`[Indexer] Block ${data.syncedBlock} was reorganized, rewinding to ${target}`);
+    await this.rewind(data, target);
+  }
+
+  /**
+   * Drop everything indexed after a block
+   */
+  private async rewind(data: IndexerData, block: number): Promise<void> {
+    for (const token of Object.values(data.tokens)) {
+      if (token.blockNumber > block) delete data.tokens[token.tokenId];
+    }
+    data.transfers = data.transfers.filter(transfer => transfer.blockNumber <= block);
+    data.syncedBlock = block;
+    data.syncedBlockHash = null;
+    await this.save(data);
+  }
+
+  private apply(data: IndexerData, events: ContractEvent[]): void {
+    for (const event of events) {
+      if (event.kind === 'mint') {
+        data.tokens[event.tokenId] = {
+          tokenId: event.tokenId,
+          creator: event.creator,
+          // Set from the token's Transfer events when the indexes are rebuilt
+          owner: event.creator,
+          originalSketchHash: event.originalSketchHash,
+          imageHash: event.coloredImageHash,
+          metadataHash: event.metadataHash,
+          style: event.style,
+          blockNumber: event.blockNumber,
+          txHash: event.txHash,
+          imageUrl: getStorageUrl(event.coloredImageHash),
+        };
+      } else if (event.kind === 'batch') {
+        for (const tokenId of event.tokenIds) {
+          const token = data.tokens[tokenId];
+          if (token) token.batchSize = event.tokenIds.length;
+        }
+      } else {
+        data.transfers.push({
+          tokenId: event.tokenId,
+          from: event.from,
+          to: event.to,
+          blockNumber: event.blockNumber,
+          txHash: event.txHash,
+          logIndex: event.logIndex,
+        });
+      }
+    }
+  }
+
+  /**
+   * Rebuild owners and the creator / style indexes from tokens and transfers
+   */
+  private rebuildIndexes(data: IndexerData): void {
+    const owners = new Map<number, string>();
+    for (const transfer of data.transfers) {
+      owners.set(transfer.tokenId, transfer.to);
+    }
+
+    const tokens = Object.values(data.tokens).sort((a, b) => b.tokenId - a.tokenId);
+    const batches = new Map<string, Set<string>>();
+    data.creators = {};
+    data.styles = {};
+
+    for (const token of tokens) {
+      token.owner = owners.get(token.tokenId) || token.owner;
+
+      const key = token.creator.toLowerCase();
+      const creator = data.creators[key] ||= {
+        address: token.creator,
+        tokenIds: [],
+        batchCount: 0,
+        firstBlock: token.blockNumber,
+        lastBlock: token.blockNumber,
+      };
+      creator.tokenIds.push(token.tokenId);
+      creator.firstBlock = Math.min(creator.firstBlock, token.blockNumber);
+      creator.lastBlock = Math.max(creator.lastBlock, token.blockNumber);
+
+      if (token.batchSize) {
+        const txs = batches.get(key) || new Set<string>();
+        txs.add(token.txHash);
+        batches.set(key, txs);
+        creator.batchCount = txs.size;
+      }
+
+      const style = data.styles[token.style] ||= { style: token.style, tokenIds: [] };
+      style.tokenIds.push(token.tokenId);
+    }
+
+    this.order = tokens.map(token => token.tokenId);
+    this.facets = this.buildFacets(data, tokens);
+  }
+
+  private buildFacets(data: IndexerData, tokens: IndexedToken[]): CollectionFacets {
+    const traits = new Map<string, Set<string>>();
+    for (const token of tokens) {
+      for (const attribute of token.metadata?.attributes || []) {
+        const values = traits.get(attribute.trait_type) || new Set<string>();
+        values.add(String(attribute.value));
+        traits.set(attribute.trait_type, values);
+      }
+    }
+
+    return {
+      styles: Object.values(data.styles)
+        .sort((a, b) => b.tokenIds.length - a.tokenIds.length)
+        .map(style => style.style),
+      traits: Object.fromEntries(
+        [...traits]
+          .filter(([, values]) => values.size <= TRAIT_FACET_MAX_VALUES)
+          .map(([type, values]) => [type, [...values].sort()])
+      ),
+    };
+  }
+
+  private async save(data: IndexerData): Promise<void> {
+    this.rebuildIndexes(data);
+    data.updatedAt = Date.now();
+    await this.store.save(data);
+  }
+
+  /**
+   * Load prompt, mint time and metadata of new tokens (not in the events)
+   * @returns Whether any token changed
+   */
+  private async enrich(data: IndexerData): Promise<boolean> {
+    const pending = this.order.map(id => data.tokens[id]).filter(token => !token.enriched);
+    if (pending.length === 0) return false;
+
+    const provider = getReadProvider();
+    let next = 0;
+    let loaded = 0;
+
+    await Promise.all(Array.from({ length: Math.min(ENRICH_CONCURRENCY, pending.length) }, async () => {
+      while (next < pending.length) {
+        const token = pending[next++];
+        try {
+          const nft = await getNFTData(provider, token.tokenId);
+          token.prompt = nft.prompt;
+          token.createdAt = nft.createdAt;
+
+          const metadata = token.metadataHash ? await loadMetadata(token.metadataHash).catch(() => null) : null;
+          if (metadata) {
+            token.metadata = metadata;
+            token.imageUrl = metadata.image || token.imageUrl;
+          }
+          token.enriched = true;
+          loaded++;
+        } catch (error) {
+          // Retried on the next sync
+          console.warn(`[Indexer] Failed to load token #${token.tokenId}:`, error instanceof Error ? error.message : error);
+        }
+      }
+    }));
+
+    return loaded > 0;
+  }
+
+  /**
+   * Sync, but keep serving the stored index while the RPC is unavailable or a
+   * backfill is running (only a caught-up index waits for new blocks)
+   */
+  private async fresh(): Promise<IndexerData> {
+    const data = await this.load();
+    const sync = this.sync();
+
+    if (!this.caughtUp) {
+      sync.catch(() => {
+        // Recorded in lastError; the next query or poll retries
+      });
+      // Nothing indexed and the last sync failed - nothing to serve
+      if (data.syncedBlockHash === null && this.lastError) throw new Error(this.lastError);
+      return data;
+    }
+
+    try {
+      await sync;
+    } catch {
+      // Serve the stored index
+    }
+    return data;
+  }
+
+  /**
+   * Page of the tokens matching a query, in its sort order (newest first by default)
+   * @param cursor - nextCursor of the previous page (token id to continue after)
+   */
+  async getPage(query: CollectionQuery, cursor: number | null, limit: number): Promise<CollectionPage> {
+    const data = await this.fresh();
+    const compare = SORTS[query.sort || 'newest'];
+    const matched = this.order.map(id => data.tokens[id]).filter(createFilter(query)).sort(compare);
+
+    let start = 0;
+    if (cursor !== null) {
+      const last = data.tokens[cursor];
+      start = last ? matched.findIndex(token => compare(token, last) > 0) : -1;
+    }
+    const tokens = start === -1 ? [] : matched.slice(start, start + limit);
+    const hasMore = start !== -1 && start + limit < matched.length;
+
+    return {
+      tokens: tokens.map(token => ({ ...token })),
+      nextCursor: hasMore ? String(tokens[tokens.length - 1].tokenId) : null,
+      total: this.order.length,
+      matched: matched.length,
+      facets: this.facets,
+      syncedBlock: data.syncedBlock,
+    };
+  }
+
+  /**
+   * Tokens owned and created by a wallet, with counts per style
+   */
+  async getProfile(address: string): Promise<CollectionProfile> {
+    const data = await this.fresh();
+    const key = address.toLowerCase();
+
+    let ownedIds: number[];
+    try {
+      ownedIds = await getTokensOfOwner(getReadProvider(), address);
+    } catch (error) {
+      console.warn('[Indexer] getTokensOfOwner failed, using indexed owners:', error instanceof Error ? error.message : error);
+      ownedIds = this.order.filter(id => data.tokens[id].owner.toLowerCase() === key);
+    }
+
+    // Tokens minted after the indexed block are left out until the next sync
+    const owned = ownedIds.map(id => data.tokens[id]).filter(Boolean).sort(SORTS.newest);
+    const created = (data.creators[key]?.tokenIds || []).map(id => data.tokens[id]);
+
+    return {
+      address,
+      owned: owned.map(token => ({ ...token })),
+      created: created.map(token => ({ ...token })),
+      ownedStyles: countStyles(owned),
+      createdStyles: countStyles(created),
+      syncedBlock: data.syncedBlock,
+    };
+  }
+
+  /**
+   * One token with its transfer history (oldest first)
+   */
+  async getToken(tokenId: number): Promise<TokenDetail | null> {
+    const data = await this.fresh();
+    const token = data.tokens[tokenId];
+    if (!token) return null;
+
+    return {
+      token: { ...token },
+      transfers: data.transfers
+        .filter(transfer => transfer.tokenId === tokenId)
+        .map(({ from, to, blockNumber, txHash, logIndex }) => ({ from, to, blockNumber, txHash, logIndex })),
+      syncedBlock: data.syncedBlock,
+    };
+  }
+
+  async getStatus(): Promise<IndexerStatus> {
+    const data = await this.load();
+    return {
+      chainId: data.chainId,
+      contract: data.contract,
+      syncedBlock: data.syncedBlock,
+      tokens: this.order.length,
+      transfers: data.transfers.length,
+      creators: Object.keys(data.creators).length,
+      lastSyncAt: this.lastSyncAt || null,
+      lastError: this.lastError,
+    };
+  }
+}
+
+// Keep one indexer per server process (survives Next.js dev module reloads)
+const globalForIndexer = globalThis as typeof globalThis & { __nftIndexer?: NftIndexer };
+
+export function getIndexer(): NftIndexer {
+  if (!globalForIndexer.__nftIndexer) {
+    globalForIndexer.__nftIndexer = new NftIndexer(getIndexerStore());
+    globalForIndexer.__nftIndexer.start();
+  }
+  return globalForIndexer.__nftIndexer;
+}
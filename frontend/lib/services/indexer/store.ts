@@ -0,0 +1,77 @@
+/**
+ * Indexer Store
+ * Indexed state of one contract as a single JSON document, so a restart resumes from
+ * the last indexed block. Selected with INDEXER_STORE=memory|fs (default: fs).
+ */
+
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { IndexerData } from './types';
+
+const INDEXER_STORE = process.env.INDEXER_STORE || 'fs';
+const INDEXER_STORE_DIR = process.env.INDEXER_STORE_DIR || join(tmpdir(), 'sketchnft-indexer');
+
+export interface IndexerStore {
+  load(chainId: number, contract: string): Promise<IndexerData | null>;
+  save(data: IndexerData): Promise<void>;
+}
+
+// One document per chain + contract, so pointing the app at another deployment starts fresh
+const dataId = (chainId: number, contract: string) => `${chainId}_${contract.toLowerCase()}`;
+
+class MemoryIndexerStore implements IndexerStore {
+  protected documents = new Map<string, IndexerData>();
+
+  async load(chainId: number, contract: string): Promise<IndexerData | null> {
+    return this.documents.get(dataId(chainId, contract)) || null;
+  }
+
+  async save(data: IndexerData): Promise<void> {
+    this.documents.set(dataId(data.chainId, data.contract), data);
+  }
+}
+
+class FileIndexerStore extends MemoryIndexerStore {
+  constructor(private dir: string) {
+    super();
+  }
+
+  private pathFor(chainId: number, contract: string): string {
+    return join(this.dir, `${dataId(chainId, contract)}.json`);
+  }
+
+  async load(chainId: number, contract: string): Promise<IndexerData | null> {
+    const cached = await super.load(chainId, contract);
+    if (cached) return cached;
+
+    try {
+      const data: IndexerData = JSON.parse(await readFile(this.pathFor(chainId, contract), 'utf-8'));
+      this.documents.set(dataId(chainId, contract), data);
+      return data;
+    } catch {
+      return null;
+    }
+  }
+
+  async save(data: IndexerData): Promise<void> {
+    await super.save(data);
+    await mkdir(this.dir, { recursive: true });
+    // Write then rename so a crash mid-write never leaves a truncated document
+    const path = this.pathFor(data.chainId, data.contract);
+    await writeFile(`${path}.tmp`, JSON.stringify(data));
+    await rename(`${path}.tmp`, path);
+  }
+}
+
+// Keep one store per server process (survives Next.js dev module reloads)
+const globalForIndexer = globalThis as typeof globalThis & { __indexerStore?: IndexerStore };
+
+export function getIndexerStore(): IndexerStore {
+  if (!globalForIndexer.__indexerStore) {
+    globalForIndexer.__indexerStore = INDEXER_STORE === 'memory'
+      ? new MemoryIndexerStore()
+      : new FileIndexerStore(INDEXER_STORE_DIR);
+  }
+  return globalForIndexer.__indexerStore;
+}
@@ -0,0 +1,56 @@
+/**
+ * NFT Indexer Types
+ * Tokens, creators, styles and transfers built from the contract's NFTMinted,
+ * BatchMinted and Transfer logs, persisted between restarts.
+ */
+
+import type { CollectionToken, TokenTransfer } from '../collection/types';
+
+export interface IndexedToken extends CollectionToken {
+  owner: string; // From the latest Transfer
+  batchSize?: number; // Set when minted by batchMint
+  enriched?: boolean; // getNFTData / metadata loaded (or known to be missing)
+}
+
+export interface IndexedTransfer extends TokenTransfer {
+  tokenId: number;
+}
+
+export interface IndexedCreator {
+  address: string;
+  tokenIds: number[]; // Newest first
+  batchCount: number;
+  firstBlock: number;
+  lastBlock: number;
+}
+
+export interface IndexedStyle {
+  style: string;
+  tokenIds: number[]; // Newest first
+}
+
+// Everything the indexer knows about one contract, as persisted by the IndexerStore
+export interface IndexerData {
+  chainId: number;
+  contract: string;
+  syncedBlock: number;
+  // Hash of syncedBlock as seen when it was indexed - a different hash later means a reorg
+  syncedBlockHash: string | null;
+  tokens: Record<string, IndexedToken>;
+  transfers: IndexedTransfer[];
+  // Keyed by lowercase address / style name; rebuilt from tokens after every change
+  creators: Record<string, IndexedCreator>;
+  styles: Record<string, IndexedStyle>;
+  updatedAt: number;
+}
+
+export interface IndexerStatus {
+  chainId: number;
+  contract: string;
+  syncedBlock: number;
+  tokens: number;
+  transfers: number;
+  creators: number;
+  lastSyncAt: number | null;
+  lastError: string | null;
+}
@@ -0,0 +1,84 @@
+/**
+ * Generation Job Events
+ * In-process pub/sub so any number of SSE connections can watch the same job
+ */
+
+import { GenerationJob, JobEvent, JobItem, JobItemEventKind, JobItemView } from './types';
+
+type JobListener = (event: JobEvent) => void;
+
+// One listener set per job, shared across Next.js dev module reloads
+const globalForEvents = globalThis as typeof globalThis & { __jobListeners?: Map<string, Set<JobListener>> };
+const listeners = globalForEvents.__jobListeners ?? (globalForEvents.__jobListeners = new Map<string, Set<JobListener>>());
+
+/**
+ * Subscribe to a job's events
+ * @returns Unsubscribe function
+ */
+export function subscribeToJob(jobId: string, listener: JobListener): () => void {
+  let set = listeners.get(jobId);
+  if (!set) {
+    set = new Set();
+    listeners.set(jobId, set);
+  }
+  set.add(listener);
+
+  return () => {
+    set.delete(listener);
+    if (set.size === 0) listeners.delete(jobId);
+  };
+}
+
+function publish(jobId: string, event: JobEvent): void {
+  listeners.get(jobId)?.forEach(listener => {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error(`[Jobs] Listener for ${jobId} failed:`, error);
+    }
+  });
+}
+
+/**
+ * Finished-item counts and overall progress (0-100)
+ */
+export function getJobCounts(job: GenerationJob) {
+  const completedCount = job.items.filter(i => i.status === 'completed').length;
+  const failedCount = job.items.filter(i => i.status === 'failed').length;
+  const progress = job.items.length ? Math.round(((completedCount + failedCount) / job.items.length) * 100) : 100;
+  return { completedCount, failedCount, progress };
+}
+
+/**
+ * Browser-facing view of an item (history replaced by its length)
+ */
+export function toItemView(item: JobItem): JobItemView {
+  const { history, ...view } = item;
+  return { ...view, historyCount: history?.length ?? 0 };
+}
+
+/**
+ * Publish the current state of one item
+ */
+export function publishItemEvent(job: GenerationJob, index: number, kind: JobItemEventKind): void {
+  publish(job.id, {
+    type: 'item',
+    jobId: job.id,
+    kind,
+    item: toItemView(job.items[index]),
+    progress: getJobCounts(job).progress,
+  });
+}
+
+/**
+ * Publish a job-level status change
+ */
+export function publishJobStatus(job: GenerationJob): void {
+  publish(job.id, {
+    type: 'job',
+    jobId: job.id,
+    status: job.status,
+    error: job.error,
+    ...getJobCounts(job),
+  });
+}
@@ -0,0 +1,9 @@
+/**
+ * Server-side Generation Jobs
+ * Server-only: uses the filesystem and provider API keys
+ */
+
+export * from './types';
+export { getJobStore, isValidJobId } from './store';
+export { createJob, ensureJobRunning, regenerateItem, revertItem, toJobSnapshot } from './worker';
+export { subscribeToJob, toItemView } from './events';
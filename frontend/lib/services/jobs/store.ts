@@ -0,0 +1,113 @@
+/**
+ * Generation Job Store
+ * In-memory store with optional filesystem persistence so jobs survive
+ * a server restart. Selected with JOB_STORE=memory|fs (default: fs).
+ */
+
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { GenerationJob } from './types';
+
+const JOB_STORE = process.env.JOB_STORE || 'fs';
+const JOB_STORE_DIR = process.env.JOB_STORE_DIR || join(tmpdir(), 'sketchnft-jobs');
+
+export interface JobStore {
+  get(id: string): Promise<GenerationJob | null>;
+  save(job: GenerationJob): Promise<void>;
+}
+
+class MemoryJobStore implements JobStore {
+  protected jobs = new Map<string, GenerationJob>();
+
+  async get(id: string): Promise<GenerationJob | null> {
+    return this.jobs.get(id) || null;
+  }
+
+  async save(job: GenerationJob): Promise<void> {
+    this.jobs.set(job.id, job);
+  }
+}
+
+class FileJobStore extends MemoryJobStore {
+  // Last queued write per job - saves of one job run one at a time, in order
+  private writes = new Map<string, Promise<void>>();
+
+  constructor(private dir: string) {
+    super();
+  }
+
+  private pathFor(id: string): string {
+    return join(this.dir, `${id}.json`);
+  }
+
+  async get(id: string): Promise<GenerationJob | null> {
+    const cached = await super.get(id);
+    if (cached) return cached;
+
+    try {
+      const job: GenerationJob = JSON.parse(await readFile(this.pathFor(id), 'utf-8'));
+      this.jobs.set(id, job);
+      return job;
+    } catch {
+      return null;
+    }
+  }
+
+  async save(job: GenerationJob): Promise<void> {
+    await super.save(job);
+
+    const previous = this.writes.get(job.id) || Promise.resolve();
+    const write = previous.catch(() => undefined).then(() => this.write(job));
+    this.writes.set(job.id, write);
+    try {
+      await write;
+    } finally {
+      if (this.writes.get(job.id) === write) this.writes.delete(job.id);
+    }
+  }
+
+  private async write(job: GenerationJob): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+    // Write then rename so a crash mid-write never leaves a truncated job
+    const path = this.pathFor(job.id);
+    await writeFile(`${path}.tmp`, JSON.stringify(job));
+    await rename(`${path}.tmp`, path);
+  }
+}
+
+// Keep one store per server process (survives Next.js dev module reloads)
+const globalForJobs = globalThis as typeof globalThis & { __jobStore?: JobStore };
+
+export function getJobStore(): JobStore {
+  if (!globalForJobs.__jobStore) {
+    globalForJobs.__jobStore = JOB_STORE === 'memory'
+      ? new MemoryJobStore()
+      : new FileJobStore(JOB_STORE_DIR);
+  }
+  return globalForJobs.__jobStore;
+}
+
+/**
+ * Job ids become file names - only accept the format createJob produces
+ */
+export function isValidJobId(id: string): boolean {
+  return /^job-[a-f0-9-]{36}$/.test(id);
+}
+
+/**
+ * Load, mutate and persist a job
+ */
+export async function updateJob(
+  id: string,
+  mutate: (job: GenerationJob) => void
+): Promise<GenerationJob | null> {
+  const store = getJobStore();
+  const job = await store.get(id);
+  if (!job) return null;
+
+  mutate(job);
+  job.updatedAt = Date.now();
+  await store.save(job);
+  return job;
+}
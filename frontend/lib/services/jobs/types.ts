@@ -0,0 +1,125 @@
+/**
+ * Generation Job Types
+ * A job is one collection run: a GenerationConfig plus the reference image,
+ * executed item by item by the server-side worker.
+ */
+
+import { GenerationConfig, ItemTrait } from '@/lib/types';
+import type { ReferenceImage } from '../imageProviders';
+import type { UsageIdentity } from '../usage';
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export type JobItemStatus = 'pending' | 'generating' | 'completed' | 'failed';
+
+/**
+ * A previous result of an item, kept so the user can revert a regeneration
+ */
+export interface JobItemAttempt {
+  prompt: string;
+  imageUrl: string;
+  title?: string;
+  description?: string;
+  provider?: string;
+  providerName?: string;
+  seed?: number;
+  width?: number;
+  height?: number;
+  createdAt: number;
+}
+
+export interface JobItem {
+  id: string;
+  index: number;
+  prompt: string;
+  status: JobItemStatus;
+  imageUrl?: string; // Base64 data URL once generated
+  title?: string;
+  description?: string;
+  provider?: string;
+  providerName?: string; // Display name, recorded as the metadata Generator
+  seed?: number; // Seed used for the current image (reuse to lock it)
+  traits?: ItemTrait[]; // Sampled from config.traits when the job is created
+  width?: number;
+  height?: number;
+  error?: string;
+  history?: JobItemAttempt[]; // Oldest first
+  updatedAt: number;
+}
+
+/**
+ * Item as sent to the browser in snapshots and events (history fetched separately)
+ */
+export type JobItemView = Omit<JobItem, 'history'> & {
+  historyCount: number;
+};
+
+/**
+ * Options for regenerating a single item
+ */
+export interface RegenerateItemOptions {
+  prompt?: string; // Edited prompt (defaults to the current one)
+  seed?: number; // Locked seed (defaults to a fresh random seed)
+}
+
+export interface GenerationJob {
+  id: string;
+  status: JobStatus;
+  config: GenerationConfig;
+  referenceImage?: ReferenceImage;
+  // First generated image - the collection's base character, never replaced once set
+  baseImage?: ReferenceImage;
+  items: JobItem[];
+  owner?: string; // Signed-in (SIWE) wallet that started the job
+  usage?: UsageIdentity; // Requester charged for the items up front - failed items are refunded to it
+  error?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Job as returned to the browser (no reference image, optional image omission)
+ */
+export interface JobSnapshot {
+  id: string;
+  status: JobStatus;
+  config: GenerationConfig;
+  items: JobItemView[];
+  completedCount: number;
+  failedCount: number;
+  progress: number; // 0-100, finished items / total
+  owner?: string;
+  error?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Per-item phases streamed to watchers
+ */
+export type JobItemEventKind = 'queued' | 'generating' | 'image_ready' | 'metadata_ready' | 'completed' | 'failed';
+
+export interface JobSnapshotEvent {
+  type: 'snapshot';
+  job: JobSnapshot;
+}
+
+export interface JobItemEvent {
+  type: 'item';
+  jobId: string;
+  kind: JobItemEventKind;
+  item: JobItemView;
+  progress: number;
+}
+
+export interface JobStatusEvent {
+  type: 'job';
+  jobId: string;
+  status: JobStatus;
+  progress: number;
+  completedCount: number;
+  failedCount: number;
+  error?: string;
+}
+
+export type JobEvent = JobSnapshotEvent | JobItemEvent | JobStatusEvent;
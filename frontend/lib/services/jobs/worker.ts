@@ -0,0 +1,388 @@
+/**
+ * Generation Job Worker
+ * Runs a job's items sequentially on the server:
+ * the first item uses the uploaded reference image, the rest use the
+ * first generated image as reference so the collection stays consistent.
+ */
+
+import { randomInt, randomUUID } from 'crypto';
+import { GenerationConfig } from '@/lib/types';
+import { generateWithProvider, ReferenceImage, selectImageProvider } from '../imageProviders';
+import { generateNFTMetadata, getDefaultMetadata } from '../metadataGenerationService';
+import { sampleCollectionTraits } from '../traitService';
+import { refundUsage, UsageIdentity } from '../usage';
+import { getJobCounts, publishItemEvent, publishJobStatus, toItemView } from './events';
+import { getJobStore, updateJob } from './store';
+import {
+  GenerationJob,
+  JobItem,
+  JobItemAttempt,
+  JobItemEventKind,
+  JobItemView,
+  JobSnapshot,
+  RegenerateItemOptions,
+} from './types';
+
+// Previous results kept per item for revert
+const MAX_ITEM_HISTORY = 5;
+
+// Seeds stay within a signed 32-bit int - the range every provider accepts
+const MAX_SEED = 2 ** 31 - 1;
+
+// Jobs with a worker loop in this process
+const globalForWorker = globalThis as typeof globalThis & { __activeJobs?: Set<string> };
+const activeJobs = globalForWorker.__activeJobs ?? (globalForWorker.__activeJobs = new Set<string>());
+
+function dataUrlToReference(dataUrl: string | undefined): ReferenceImage | undefined {
+  const match = dataUrl?.match(/^data:([^;]+);base64,(.+)$/);
+  return match ? { mimeType: match[1], data: match[2] } : undefined;
+}
+
+/**
+ * Create and persist a new job with one pending item per collection slot
+ */
+export async function createJob(
+  config: GenerationConfig,
+  referenceImage?: ReferenceImage,
+  owner?: string,
+  usage?: UsageIdentity
+): Promise<GenerationJob> {
+  const id = `job-${randomUUID()}`;
+  const now = Date.now();
+
+  // Job id seeds the sampling, so an item's traits never change across retries
+  const traits = config.traits ? sampleCollectionTraits(config.traits, id, config.count) : [];
+
+  const items: JobItem[] = Array.from({ length: config.count }, (_, i) => ({
+    id: `${id}-${i}`,
+    index: i,
+    prompt: `${config.prompt} - variation ${i + 1}`,
+    status: 'pending',
+    traits: traits[i],
+    updatedAt: now,
+  }));
+
+  const job: GenerationJob = {
+    id,
+    status: 'queued',
+    config,
+    referenceImage,
+    items,
+    owner,
+    usage,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await getJobStore().save(job);
+  items.forEach(item => publishItemEvent(job, item.index, 'queued'));
+  console.log(`[Jobs] Created ${id} with ${items.length} items${owner ? ` for ${owner}` : ''}`);
+  return job;
+}
+
+/**
+ * Reference image for an item: the upload for item 0, the collection's
+ * base image for the rest
+ */
+function getItemReference(job: GenerationJob, index: number): ReferenceImage | undefined {
+  return index > 0 ? job.baseImage || job.referenceImage : job.referenceImage;
+}
+
+/**
+ * Generate image + metadata for a single item and record the result.
+ * Image and metadata run in parallel and each is published as soon as it lands.
+ * @param seed - Locked seed; a fresh random one is used when omitted
+ * @returns Whether the item completed
+ */
+async function runItem(
+  job: GenerationJob,
+  item: JobItem,
+  referenceImage?: ReferenceImage,
+  seed: number = randomInt(MAX_SEED)
+): Promise<boolean> {
+  const { style, resolution, aspectRatio } = job.config;
+  const { index } = item;
+
+  const updateItem = async (changes: Partial<JobItem>, kind: JobItemEventKind) => {
+    const updated = await updateJob(job.id, j => {
+      j.items[index] = { ...j.items[index], ...changes, updatedAt: Date.now() };
+    });
+    if (updated) publishItemEvent(updated, index, kind);
+  };
+
+  await updateItem({ status: 'generating', error: undefined, seed }, 'generating');
+
+  try {
+    const selection = selectImageProvider({ referenceImage: !!referenceImage, resolution, aspectRatio, seed: true });
+    if (!selection.provider) {
+      throw new Error(selection.details ? `${selection.error}: ${selection.details}` : selection.error);
+    }
+
+    const imageTask = generateWithProvider(selection.provider, {
+      prompt: item.prompt,
+      style,
+      resolution,
+      aspectRatio,
+      referenceImage,
+      seed,
+      traits: item.traits,
+    })
+      .then(image => updateItem({
+        imageUrl: image.imageUrl,
+        provider: image.provider,
+        providerName: image.providerName,
+        width: image.width,
+        height: image.height,
+      }, 'image_ready'));
+
+    const metadataTask = generateNFTMetadata(item.prompt, style)
+      .catch(() => getDefaultMetadata(item.prompt, style))
+      .then(metadata => updateItem({
+        title: metadata.title,
+        description: metadata.description,
+      }, 'metadata_ready'));
+
+    const [imageResult] = await Promise.allSettled([imageTask, metadataTask]);
+    if (imageResult.status === 'rejected') {
+      throw imageResult.reason;
+    }
+
+    await updateItem({ status: 'completed' }, 'completed');
+
+    // The first successful item 0 becomes the reference for the rest of the collection
+    if (index === 0) {
+      await updateJob(job.id, j => {
+        j.baseImage ??= dataUrlToReference(j.items[0].imageUrl);
+      });
+    }
+    console.log(`[Jobs] ${job.id} item ${index + 1}/${job.items.length} completed`);
+    return true;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Generation failed';
+    console.error(`[Jobs] ${job.id} item ${index + 1} failed:`, message);
+
+    await updateItem({ status: 'failed', error: message }, 'failed');
+    return false;
+  }
+}
+
+/**
+ * Give images charged when the job was created back to its requester
+ */
+async function refundJobImages(job: GenerationJob, images: number): Promise<void> {
+  if (!job.usage || images <= 0) return;
+
+  try {
+    await refundUsage(job.usage, { images });
+  } catch (error) {
+    console.warn(`[Jobs] ${job.id} refund of ${images} image(s) failed:`, error instanceof Error ? error.message : error);
+  }
+}
+
+/**
+ * Run all unfinished items of a job
+ */
+async function runJob(id: string): Promise<void> {
+  try {
+    const job = await updateJob(id, j => {
+      j.status = 'running';
+    });
+    if (!job) return;
+    publishJobStatus(job);
+
+    for (const item of job.items) {
+      if (item.status === 'completed' || item.status === 'failed') continue;
+
+      // Item 0 uses the upload; later items use the first generated image when available
+      const current = await getJobStore().get(id);
+      // Charged when the job was created, like a single generation a failure costs nothing
+      if (!await runItem(job, item, getItemReference(current || job, item.index))) {
+        await refundJobImages(job, 1);
+      }
+    }
+
+    const finished = await updateJob(id, j => {
+      j.status = 'completed';
+    });
+    if (finished) publishJobStatus(finished);
+    console.log(`[Jobs] ${id} completed`);
+  } catch (error) {
+    console.error(`[Jobs] ${id} failed:`, error);
+    const failed = await updateJob(id, j => {
+      j.status = 'failed';
+      j.error = error instanceof Error ? error.message : 'Job failed';
+    });
+    if (failed) {
+      publishJobStatus(failed);
+      // Items the failed job never finished are not generated at all
+      await refundJobImages(failed, failed.items.filter(item => item.status === 'pending' || item.status === 'generating').length);
+    }
+  } finally {
+    activeJobs.delete(id);
+  }
+}
+
+/**
+ * Start the worker for a job unless it is finished or already running here.
+ * Called on creation and on every status read, so jobs interrupted by a
+ * server restart resume where they left off.
+ */
+export function ensureJobRunning(job: GenerationJob): void {
+  if (job.status === 'completed' || job.status === 'failed') return;
+  if (activeJobs.has(job.id)) return;
+
+  activeJobs.add(job.id);
+  void runJob(job.id);
+}
+
+/**
+ * Result of an item action - error and HTTP status when it could not run
+ */
+export interface ItemActionResult {
+  item?: JobItem;
+  error?: string;
+  status?: number;
+}
+
+/**
+ * Look up an item by id
+ */
+async function getJobItem(jobId: string, itemId: string): Promise<ItemActionResult & { job?: GenerationJob }> {
+  const job = await getJobStore().get(jobId);
+  if (!job) return { error: 'Job not found', status: 404 };
+
+  const item = job.items.find(i => i.id === itemId);
+  if (!item) return { error: 'Item not found', status: 404 };
+
+  return { job, item };
+}
+
+/**
+ * Snapshot an item's current result for its history
+ */
+function toAttempt(item: JobItem): JobItemAttempt | null {
+  if (!item.imageUrl) return null;
+
+  return {
+    prompt: item.prompt,
+    imageUrl: item.imageUrl,
+    title: item.title,
+    description: item.description,
+    provider: item.provider,
+    providerName: item.providerName,
+    seed: item.seed,
+    width: item.width,
+    height: item.height,
+    createdAt: item.updatedAt,
+  };
+}
+
+/**
+ * Regenerate (or retry) a single finished item.
+ * The current result is archived to the item's history so it can be restored.
+ * @returns The updated item, or an error message
+ */
+export async function regenerateItem(
+  jobId: string,
+  itemId: string,
+  options: RegenerateItemOptions = {}
+): Promise<ItemActionResult> {
+  const { job, item, error, status } = await getJobItem(jobId, itemId);
+  if (!job || !item) return { error, status };
+
+  if (item.status !== 'completed' && item.status !== 'failed') {
+    return { error: `Item is ${item.status} and cannot be regenerated yet`, status: 409 };
+  }
+
+  const updated = await updateJob(jobId, j => {
+    const current = j.items[item.index];
+    const attempt = toAttempt(current);
+    const history = attempt ? [...(current.history || []), attempt].slice(-MAX_ITEM_HISTORY) : current.history;
+
+    j.items[item.index] = {
+      id: current.id,
+      index: current.index,
+      prompt: options.prompt?.trim() || current.prompt,
+      traits: current.traits,
+      status: 'pending',
+      history,
+      updatedAt: Date.now(),
+    };
+  });
+  if (!updated) return { error: 'Job not found', status: 404 };
+
+  console.log(`[Jobs] ${jobId} regenerating item ${item.index + 1}${options.seed !== undefined ? ` with seed ${options.seed}` : ''}`);
+  await runItem(updated, updated.items[item.index], getItemReference(updated, item.index), options.seed);
+
+  const finished = await getJobStore().get(jobId);
+  if (finished) publishJobStatus(finished);
+  return { item: finished?.items[item.index] };
+}
+
+/**
+ * Restore a previous attempt, moving the current result into its place in history
+ * @returns The updated item, or an error message
+ */
+export async function revertItem(
+  jobId: string,
+  itemId: string,
+  attemptIndex: number
+): Promise<ItemActionResult> {
+  const { job, item, error, status } = await getJobItem(jobId, itemId);
+  if (!job || !item) return { error, status };
+
+  if (item.status === 'pending' || item.status === 'generating') {
+    return { error: `Item is ${item.status} and cannot be reverted yet`, status: 409 };
+  }
+
+  const target = item.history?.[attemptIndex];
+  if (!target) return { error: 'Attempt not found', status: 404 };
+
+  const updated = await updateJob(jobId, j => {
+    const current = j.items[item.index];
+    const history = [...(current.history || [])];
+    const replaced = toAttempt(current);
+
+    if (replaced) {
+      history[attemptIndex] = replaced;
+    } else {
+      history.splice(attemptIndex, 1);
+    }
+
+    j.items[item.index] = {
+      ...current,
+      ...target,
+      status: 'completed',
+      error: undefined,
+      history,
+      updatedAt: Date.now(),
+    };
+  });
+  if (!updated) return { error: 'Job not found', status: 404 };
+
+  publishItemEvent(updated, item.index, 'completed');
+  publishJobStatus(updated);
+  console.log(`[Jobs] ${jobId} item ${item.index + 1} reverted to attempt ${attemptIndex + 1}`);
+  return { item: updated.items[item.index] };
+}
+
+/**
+ * Browser-facing view of a job
+ * @param since - Omit image data for items not updated after this timestamp
+ */
+export function toJobSnapshot(job: GenerationJob, since?: number): JobSnapshot {
+  return {
+    id: job.id,
+    status: job.status,
+    config: job.config,
+    items: job.items.map((item): JobItemView => {
+      const view = toItemView(item);
+      return since !== undefined && item.updatedAt < since ? { ...view, imageUrl: undefined } : view;
+    }),
+    ...getJobCounts(job),
+    owner: job.owner,
+    error: job.error,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+  };
+}
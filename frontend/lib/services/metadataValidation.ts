@@ -0,0 +1,125 @@
+/**
+ * NFT Metadata Validation
+ * Checks metadata against the ERC-721 Metadata JSON Schema (EIP-721)
+ * plus the widely used `attributes` extension read by marketplaces.
+ */
+
+export interface MetadataIssue {
+  path: string; // e.g. "name", "attributes[2].value"
+  message: string;
+  severity: 'error' | 'warning';
+}
+
+// Fields defined by the EIP-721 "ERC721 Metadata JSON Schema"
+const ERC721_PROPERTIES = ['name', 'description', 'image'] as const;
+
+// Extension fields marketplaces understand, plus our sketch provenance - anything else is flagged as unknown
+const KNOWN_EXTENSIONS = ['attributes', 'external_url', 'animation_url', 'background_color', 'youtube_url', 'provenance'];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isUri(value: string): boolean {
+  try {
+    new URL(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validate an attributes array ({ trait_type, value } entries)
+ */
+function validateAttributes(attributes: unknown, issues: MetadataIssue[]): void {
+  if (!Array.isArray(attributes)) {
+    issues.push({ path: 'attributes', message: 'attributes must be an array', severity: 'error' });
+    return;
+  }
+
+  const seen = new Set<string>();
+
+  attributes.forEach((attribute, index) => {
+    const path = `attributes[${index}]`;
+
+    if (!isRecord(attribute)) {
+      issues.push({ path, message: 'Attribute must be an object', severity: 'error' });
+      return;
+    }
+
+    const { trait_type: traitType, value } = attribute;
+
+    if (typeof traitType !== 'string' || !traitType.trim()) {
+      issues.push({ path: `${path}.trait_type`, message: 'trait_type must be a non-empty string', severity: 'error' });
+    } else if (seen.has(traitType)) {
+      issues.push({ path: `${path}.trait_type`, message: `Duplicate trait "${traitType}"`, severity: 'warning' });
+    } else {
+      seen.add(traitType);
+    }
+
+    if (typeof value !== 'string' && typeof value !== 'number') {
+      issues.push({ path: `${path}.value`, message: 'value must be a string or number', severity: 'error' });
+    } else if (value === '') {
+      issues.push({ path: `${path}.value`, message: 'Empty value', severity: 'warning' });
+    }
+  });
+}
+
+/**
+ * Validate NFT metadata JSON
+ * @returns Issues found (empty when valid)
+ */
+export function validateNFTMetadata(metadata: unknown): MetadataIssue[] {
+  const issues: MetadataIssue[] = [];
+
+  if (!isRecord(metadata)) {
+    return [{ path: '', message: 'Metadata must be a JSON object', severity: 'error' }];
+  }
+
+  for (const key of ERC721_PROPERTIES) {
+    if (metadata[key] === undefined) {
+      issues.push({ path: key, message: `${key} is required`, severity: 'error' });
+    } else if (typeof metadata[key] !== 'string') {
+      issues.push({ path: key, message: `${key} must be a string`, severity: 'error' });
+    }
+  }
+
+  if (typeof metadata.name === 'string' && !metadata.name.trim()) {
+    issues.push({ path: 'name', message: 'name should not be empty', severity: 'error' });
+  }
+
+  if (typeof metadata.description === 'string' && !metadata.description.trim()) {
+    issues.push({ path: 'description', message: 'description is empty', severity: 'warning' });
+  }
+
+  if (typeof metadata.image === 'string' && !isUri(metadata.image)) {
+    issues.push({ path: 'image', message: 'image must be a URI', severity: 'error' });
+  }
+
+  if (metadata.attributes !== undefined) {
+    validateAttributes(metadata.attributes, issues);
+  }
+
+  if (metadata.provenance !== undefined) {
+    const { provenance } = metadata;
+    if (!isRecord(provenance) || typeof provenance.originalSketchHash !== 'string' || !provenance.originalSketchHash) {
+      issues.push({ path: 'provenance', message: 'provenance must include an originalSketchHash', severity: 'error' });
+    } else if (typeof provenance.originalSketch !== 'string' || !isUri(provenance.originalSketch)) {
+      issues.push({ path: 'provenance.originalSketch', message: 'originalSketch must be a URI', severity: 'warning' });
+    }
+  }
+
+  Object.keys(metadata)
+    .filter(key => !(ERC721_PROPERTIES as readonly string[]).includes(key) && !KNOWN_EXTENSIONS.includes(key))
+    .forEach(key => issues.push({ path: key, message: 'Unknown property (ignored by most marketplaces)', severity: 'warning' }));
+
+  return issues;
+}
+
+/**
+ * Whether validation found blocking errors
+ */
+export function hasMetadataErrors(issues: MetadataIssue[]): boolean {
+  return issues.some(issue => issue.severity === 'error');
+}
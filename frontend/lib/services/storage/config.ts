@@ -0,0 +1,50 @@
+/**
+ * Storage Configuration
+ * Client-safe: which backend this deployment stores files in and where they are served from.
+ * Selected with NEXT_PUBLIC_STORAGE_BACKEND=zg|local|memory (default: zg).
+ */
+
+import { StorageBackendName } from './types';
+
+const BACKENDS: StorageBackendName[] = ['zg', 'local', 'memory'];
+
+export const STORAGE_BACKEND: StorageBackendName =
+  BACKENDS.find(name => name === process.env.NEXT_PUBLIC_STORAGE_BACKEND) || 'zg';
+
+// 0G Network Configuration
+export const ZG_INDEXER_RPC = 'https://indexer-storage-testnet-turbo.0g.ai';
+export const ZG_EVM_RPC = 'https://evmrpc-testnet.0g.ai';
+
+// 0G Storage gateway - use turbo indexer (standard returns 503)
+export const ZG_GATEWAY = process.env.NEXT_PUBLIC_0G_GATEWAY || 'https://indexer-storage-testnet-turbo.0g.ai';
+
+// Base URL of this app, used for files served by /api/storage
+const APP_URL = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+
+/**
+ * 0G indexer URL for a root (query parameter format: /file?root={hash})
+ */
+export function getZgGatewayUrl(root: string): string {
+  return `${ZG_GATEWAY}/file?root=${root}`;
+}
+
+/**
+ * URL of a file served by this app's /api/storage route
+ */
+export function getApiStorageUrl(root: string): string {
+  return `${APP_URL}/api/storage/${root}`;
+}
+
+/**
+ * URL of a file stored by the dev-mode mock upload route (/api/upload-to-0g) - never on 0G
+ */
+export function getMockStorageUrl(root: string): string {
+  return `${APP_URL}/api/upload-to-0g/${root}`;
+}
+
+/**
+ * Roots become file names and URL segments - only accept 32-byte hex
+ */
+export function isValidRoot(root: string): boolean {
+  return /^0x[0-9a-fA-F]{64}$/.test(root);
+}
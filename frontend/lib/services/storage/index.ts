@@ -0,0 +1,82 @@
+/**
+ * Storage Backends
+ * Server-only: picks the configured backend (NEXT_PUBLIC_STORAGE_BACKEND);
+ * the local backend writes to STORAGE_DIR.
+ */
+
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { getMockStorageUrl, STORAGE_BACKEND } from './config';
+import { LocalStorageBackend } from './local';
+import { MemoryStorageBackend } from './memory';
+import { StorageBackend } from './types';
+import { ZgStorageBackend } from './zg';
+
+export * from './types';
+export { getApiStorageUrl, getMockStorageUrl, getZgGatewayUrl, isValidRoot, STORAGE_BACKEND, ZG_EVM_RPC, ZG_INDEXER_RPC } from './config';
+
+const STORAGE_DIR = process.env.STORAGE_DIR || join(tmpdir(), 'sketchnft-storage');
+const MOCK_STORAGE_DIR = process.env.MOCK_STORAGE_DIR || join(tmpdir(), 'sketchnft-mock-storage');
+
+// Keep one backend per server process (survives Next.js dev module reloads)
+const globalForStorage = globalThis as typeof globalThis & {
+  __storageBackend?: StorageBackend;
+  __mockStorage?: StorageBackend;
+};
+
+export function getStorageBackend(): StorageBackend {
+  if (!globalForStorage.__storageBackend) {
+    globalForStorage.__storageBackend = STORAGE_BACKEND === 'local'
+      ? new LocalStorageBackend(STORAGE_DIR)
+      : STORAGE_BACKEND === 'memory'
+        ? new MemoryStorageBackend()
+        : new ZgStorageBackend();
+  }
+  return globalForStorage.__storageBackend;
+}
+
+/**
+ * Dev-mode mock storage behind /api/upload-to-0g: local files in MOCK_STORAGE_DIR,
+ * whatever backend is configured - content stored here never reaches 0G
+ */
+export function getMockStorage(): StorageBackend {
+  if (!globalForStorage.__mockStorage) {
+    globalForStorage.__mockStorage = new LocalStorageBackend(MOCK_STORAGE_DIR, getMockStorageUrl);
+  }
+  return globalForStorage.__mockStorage;
+}
+
+/**
+ * Backends store raw bytes only - recognise the formats the app uploads
+ */
+export function detectContentType(bytes: Uint8Array): string {
+  const ascii = (start: number, end: number) => String.fromCharCode(...bytes.subarray(start, end));
+
+  if (bytes[0] === 0x89 && ascii(1, 4) === 'PNG') return 'image/png';
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'image/jpeg';
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') return 'image/webp';
+  if (ascii(0, 3) === 'GIF') return 'image/gif';
+  if (/^\s*[{[]/.test(ascii(0, 16))) return 'application/json';
+  return 'application/octet-stream';
+}
+
+/**
+ * Bytes to store for an upload request body: an image data URL or a JSON document
+ * @returns Null for an unknown type, or an image that is not a non-empty data URL
+ */
+export function decodeUploadData(data: unknown, type: unknown): Buffer | null {
+  if (type === 'image') {
+    // Extract base64 from data URL
+    const parts = String(data).split(',');
+    if (parts.length < 2 || !parts[1]) return null;
+    const buffer = Buffer.from(parts[1], 'base64');
+    return buffer.length > 0 ? buffer : null;
+  }
+
+  if (type === 'json') {
+    const jsonString = typeof data === 'string' ? data : JSON.stringify(data, null, 2);
+    return Buffer.from(jsonString, 'utf-8');
+  }
+
+  return null;
+}
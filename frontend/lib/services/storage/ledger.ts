@@ -0,0 +1,89 @@
+/**
+ * 0G Upload Ledger
+ * Records each Flow submission and its segment upload progress by Merkle root,
+ * so identical content is never paid for twice and partial uploads can resume.
+ * Selected with UPLOAD_LEDGER=memory|fs (default: fs).
+ */
+
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { UploadLedgerEntry } from './types';
+
+const UPLOAD_LEDGER = process.env.UPLOAD_LEDGER || 'fs';
+const UPLOAD_LEDGER_DIR = process.env.UPLOAD_LEDGER_DIR || join(tmpdir(), 'sketchnft-uploads');
+
+export interface UploadLedger {
+  get(root: string): Promise<UploadLedgerEntry | null>;
+  save(entry: UploadLedgerEntry): Promise<void>;
+}
+
+class MemoryUploadLedger implements UploadLedger {
+  protected entries = new Map<string, UploadLedgerEntry>();
+
+  async get(root: string): Promise<UploadLedgerEntry | null> {
+    return this.entries.get(root.toLowerCase()) || null;
+  }
+
+  async save(entry: UploadLedgerEntry): Promise<void> {
+    this.entries.set(entry.root.toLowerCase(), entry);
+  }
+}
+
+class FileUploadLedger extends MemoryUploadLedger {
+  constructor(private dir: string) {
+    super();
+  }
+
+  private pathFor(root: string): string {
+    return join(this.dir, `${root.toLowerCase()}.json`);
+  }
+
+  async get(root: string): Promise<UploadLedgerEntry | null> {
+    const cached = await super.get(root);
+    if (cached) return cached;
+
+    try {
+      const entry: UploadLedgerEntry = JSON.parse(await readFile(this.pathFor(root), 'utf-8'));
+      this.entries.set(root.toLowerCase(), entry);
+      return entry;
+    } catch {
+      return null;
+    }
+  }
+
+  async save(entry: UploadLedgerEntry): Promise<void> {
+    await super.save(entry);
+    await mkdir(this.dir, { recursive: true });
+    await writeFile(this.pathFor(entry.root), JSON.stringify(entry));
+  }
+}
+
+// Keep one ledger per server process (survives Next.js dev module reloads)
+const globalForLedger = globalThis as typeof globalThis & { __uploadLedger?: UploadLedger };
+
+export function getUploadLedger(): UploadLedger {
+  if (!globalForLedger.__uploadLedger) {
+    globalForLedger.__uploadLedger = UPLOAD_LEDGER === 'memory'
+      ? new MemoryUploadLedger()
+      : new FileUploadLedger(UPLOAD_LEDGER_DIR);
+  }
+  return globalForLedger.__uploadLedger;
+}
+
+/**
+ * Load, mutate and persist a ledger entry
+ */
+export async function updateUploadEntry(
+  root: string,
+  mutate: (entry: UploadLedgerEntry) => void
+): Promise<UploadLedgerEntry | null> {
+  const ledger = getUploadLedger();
+  const entry = await ledger.get(root);
+  if (!entry) return null;
+
+  mutate(entry);
+  entry.updatedAt = Date.now();
+  await ledger.save(entry);
+  return entry;
+}
@@ -0,0 +1,72 @@
+/**
+ * Local Filesystem Storage Backend
+ * Content-addressed directory (one file per Merkle root) so the full
+ * upload and mint flow works without network access.
+ */
+
+import { access, mkdir, readFile, stat, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { computeMerkleRoot } from '../zgMerkleTree';
+import { getApiStorageUrl } from './config';
+import { StorageBackend, StorageBackendName, StorageGetOptions, StoragePutResult } from './types';
+
+export class LocalStorageBackend implements StorageBackend {
+  readonly name: StorageBackendName = 'local';
+
+  // getUrl: where the files are served from (the dev mock upload route uses its own)
+  constructor(private dir: string, private getUrl: (root: string) => string = getApiStorageUrl) {}
+
+  private pathFor(root: string): string {
+    return join(this.dir, root.toLowerCase());
+  }
+
+  async put(data: Uint8Array): Promise<StoragePutResult> {
+    const root = computeMerkleRoot(data);
+
+    // Same root = same bytes, nothing to write twice
+    const reused = await this.exists(root);
+    if (!reused) {
+      await mkdir(this.dir, { recursive: true });
+      await writeFile(this.pathFor(root), data);
+    }
+
+    console.log(`[Storage] Stored ${data.length} bytes locally: ${root}`);
+    return { root, reused };
+  }
+
+  async putBatch(files: Uint8Array[]): Promise<StoragePutResult[]> {
+    const results: StoragePutResult[] = [];
+    for (const data of files) {
+      results.push(await this.put(data));
+    }
+    return results;
+  }
+
+  async get(root: string, options: StorageGetOptions = {}): Promise<Uint8Array | null> {
+    const path = this.pathFor(root);
+    const size = await stat(path).then(stats => stats.size, () => null);
+    if (size === null) return null;
+    if (options.maxBytes !== undefined && size > options.maxBytes) {
+      throw new Error(`File is ${size} bytes, over the ${options.maxBytes} byte limit`);
+    }
+
+    try {
+      return new Uint8Array(await readFile(path));
+    } catch {
+      return null;
+    }
+  }
+
+  async exists(root: string): Promise<boolean> {
+    try {
+      await access(this.pathFor(root));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  urlFor(root: string): string {
+    return this.getUrl(root);
+  }
+}
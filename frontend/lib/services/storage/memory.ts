@@ -0,0 +1,45 @@
+/**
+ * In-memory Storage Backend
+ * Content lives for the lifetime of the server process - for tests and demos.
+ */
+
+import { computeMerkleRoot } from '../zgMerkleTree';
+import { getApiStorageUrl } from './config';
+import { StorageBackend, StorageBackendName, StorageGetOptions, StoragePutResult } from './types';
+
+export class MemoryStorageBackend implements StorageBackend {
+  readonly name: StorageBackendName = 'memory';
+
+  private files = new Map<string, Uint8Array>();
+
+  async put(data: Uint8Array): Promise<StoragePutResult> {
+    const root = computeMerkleRoot(data);
+    const reused = this.files.has(root);
+    this.files.set(root, data);
+    return { root, reused };
+  }
+
+  async putBatch(files: Uint8Array[]): Promise<StoragePutResult[]> {
+    const results: StoragePutResult[] = [];
+    for (const data of files) {
+      results.push(await this.put(data));
+    }
+    return results;
+  }
+
+  async get(root: string, options: StorageGetOptions = {}): Promise<Uint8Array | null> {
+    const data = this.files.get(root.toLowerCase());
+    if (data && options.maxBytes !== undefined && data.length > options.maxBytes) {
+      throw new Error(`File is ${data.length} bytes, over the ${options.maxBytes} byte limit`);
+    }
+    return data || null;
+  }
+
+  async exists(root: string): Promise<boolean> {
+    return this.files.has(root.toLowerCase());
+  }
+
+  urlFor(root: string): string {
+    return getApiStorageUrl(root);
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * Storage Cost Quotes
+ * Flow fees from file sizes (padded sectors × market price) and the gas of minting
+ * a collection with batchMint - what an upload and mint cost before anything is signed.
+ * Client-safe: used by the quote route and when paying for uploads.
+ */
+
+import { ethers } from 'ethers';
+import { BatchMintItem, estimateBatchMintGas, MINT_BATCH_SIZE } from '../contractService';
+import { getSectorsForSize } from '../zgMerkleTree';
+import { MintGasQuote, StorageQuote } from './types';
+
+const FLOW_MARKET_ABI = ['function market() view returns (address)'];
+const MARKET_ABI = ['function pricePerSector() view returns (uint256)'];
+
+/**
+ * Current storage price from the Flow contract's market
+ */
+export async function getPricePerSector(runner: ethers.ContractRunner, flowAddress: string): Promise<bigint> {
+  const flowContract = new ethers.Contract(flowAddress, FLOW_MARKET_ABI, runner);
+  const marketContract = new ethers.Contract(await flowContract.market(), MARKET_ABI, runner);
+  return marketContract.pricePerSector();
+}
+
+/**
+ * Gas for minting the NFTs in MINT_BATCH_SIZE batches, at the current gas price
+ */
+async function quoteMintGas(provider: ethers.Provider, to: string, nfts: BatchMintItem[]): Promise<MintGasQuote> {
+  const batches: BatchMintItem[][] = [];
+  for (let i = 0; i < nfts.length; i += MINT_BATCH_SIZE) {
+    batches.push(nfts.slice(i, i + MINT_BATCH_SIZE));
+  }
+
+  const [estimates, feeData] = await Promise.all([
+    Promise.all(batches.map(batch => estimateBatchMintGas(provider, to, batch))),
+    provider.getFeeData(),
+  ]);
+
+  const gasLimit = estimates.reduce((sum, gas) => sum + gas, BigInt(0));
+  const gasPrice = feeData.gasPrice ?? feeData.maxFeePerGas ?? BigInt(0);
+
+  return {
+    transactions: batches.length,
+    gasLimit: gasLimit.toString(),
+    gasPrice: gasPrice.toString(),
+    fee: (gasLimit * gasPrice).toString(),
+  };
+}
+
+/**
+ * Quote storing files of the given sizes and, optionally, minting NFTs for them
+ * @param mint - NFTs to mint and the wallet minting them (gas is simulated from it)
+ */
+export async function quoteStorage(
+  provider: ethers.Provider,
+  flowAddress: string,
+  files: { id: string; size: number }[],
+  mint?: { to: string; nfts: BatchMintItem[] }
+): Promise<StorageQuote> {
+  const pricePerSector = await getPricePerSector(provider, flowAddress);
+
+  const quotedFiles = files.map(({ id, size }) => {
+    const sectors = getSectorsForSize(size);
+    return { id, size, sectors, fee: (pricePerSector * BigInt(sectors)).toString() };
+  });
+
+  const totalSectors = quotedFiles.reduce((sum, file) => sum + file.sectors, 0);
+  const quote: StorageQuote = {
+    pricePerSector: pricePerSector.toString(),
+    files: quotedFiles,
+    totalSectors,
+    storageFee: (pricePerSector * BigInt(totalSectors)).toString(),
+    mint: null,
+  };
+
+  if (mint && mint.nfts.length > 0) {
+    try {
+      quote.mint = await quoteMintGas(provider, mint.to, mint.nfts);
+    } catch (error) {
+      console.warn('[Storage] Mint gas estimate failed:', error);
+      quote.mintError = error instanceof Error ? error.message : 'Gas estimate failed';
+    }
+  }
+
+  return quote;
+}
@@ -0,0 +1,104 @@
+/**
+ * Storage Backend Types
+ * Every backend is content-addressed by the file's 0G Merkle root,
+ * so a root means the same bytes whichever backend stored them.
+ */
+
+export type StorageBackendName = 'zg' | 'local' | 'memory';
+
+export interface StoragePutOptions {
+  // Flow submission already paid for by the user's wallet (0G only)
+  txHash?: string;
+}
+
+export interface StorageGetOptions {
+  // Refuse (throw) rather than read a file larger than this
+  maxBytes?: number;
+}
+
+export interface StoragePutResult {
+  root?: string;
+  txHash?: string;
+  // Content was already stored under this root - nothing new was paid for
+  reused?: boolean;
+  error?: string;
+  // HTTP status to report with the error
+  status?: number;
+}
+
+export interface StorageBackend {
+  readonly name: StorageBackendName;
+
+  put(data: Uint8Array, options?: StoragePutOptions): Promise<StoragePutResult>;
+
+  // Several files at once - one result per file, in input order
+  putBatch(files: Uint8Array[], options?: StoragePutOptions): Promise<StoragePutResult[]>;
+
+  // Null when nothing is stored under the root; throws when the backend is unavailable
+  get(root: string, options?: StorageGetOptions): Promise<Uint8Array | null>;
+
+  exists(root: string): Promise<boolean>;
+
+  // Public URL the stored file can be fetched from
+  urlFor(root: string): string;
+}
+
+export type StorageVerificationStatus = 'ok' | 'mismatch' | 'missing';
+
+// Token fields a stored root can be recorded under
+export type NFTRootField = 'coloredImageHash' | 'metadataHash' | 'originalSketchHash';
+
+export interface StorageVerification {
+  root: string;
+  status: StorageVerificationStatus;
+  message: string;
+  // Merkle root recomputed from the downloaded bytes
+  computedRoot?: string;
+  size?: number;
+  tokenId?: number;
+  // Where the token records this root, when a tokenId was checked
+  onChainField?: NFTRootField;
+}
+
+// Progress of a 0G upload in the upload ledger
+export type UploadStatus = 'submitted' | 'uploading' | 'complete';
+
+export interface UploadLedgerEntry {
+  root: string;
+  size: number;
+  status: UploadStatus;
+  // Flow submission - txHash is unknown when the file was already submitted elsewhere
+  txHash?: string;
+  submissionIndex?: number;
+  totalSegments: number;
+  uploadedSegments: number[]; // Segment indices accepted by the storage nodes
+  error?: string; // Last segment upload failure
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Cost quotes - wei amounts are decimal strings so they survive JSON
+export interface StorageQuoteFile {
+  id: string;
+  size: number;
+  sectors: number;
+  fee: string;
+}
+
+export interface MintGasQuote {
+  // batchMint transactions needed (MINT_BATCH_SIZE NFTs each)
+  transactions: number;
+  gasLimit: string;
+  gasPrice: string;
+  fee: string;
+}
+
+export interface StorageQuote {
+  pricePerSector: string;
+  files: StorageQuoteFile[];
+  totalSectors: number;
+  storageFee: string;
+  // Null when no NFTs were quoted or the estimate failed (see mintError)
+  mint: MintGasQuote | null;
+  mintError?: string;
+}
@@ -0,0 +1,87 @@
+/**
+ * Stored Content Verification
+ * Reads a file back through the configured backend, recomputes its 0G Merkle root
+ * and checks it against the requested root and, optionally, a token's on-chain record.
+ */
+
+import { getNFTData, getReadProvider } from '../contractService';
+import { computeMerkleRoot } from '../zgMerkleTree';
+import { getStorageBackend } from './index';
+import { NFTRootField, StorageVerification } from './types';
+
+const NFT_ROOT_FIELDS: NFTRootField[] = ['coloredImageHash', 'metadataHash', 'originalSketchHash'];
+
+// Largest file downloaded for verification (generated images and metadata are far smaller)
+const STORAGE_VERIFY_MAX_BYTES = parseInt(process.env.STORAGE_VERIFY_MAX_BYTES || String(20 * 1024 * 1024), 10);
+const VERIFICATION_CACHE_SIZE = 1000;
+
+// Settled results by root and token (survives Next.js dev module reloads) - a root's
+// bytes and a token's roots never change, so only 'missing' is worth checking again
+const globalForVerify = globalThis as typeof globalThis & { __storageVerifications?: Map<string, StorageVerification> };
+
+function getVerificationCache(): Map<string, StorageVerification> {
+  if (!globalForVerify.__storageVerifications) {
+    globalForVerify.__storageVerifications = new Map();
+  }
+  return globalForVerify.__storageVerifications;
+}
+
+function cacheKey(root: string, tokenId?: number): string {
+  return `${root.toLowerCase()}:${tokenId ?? ''}`;
+}
+
+/**
+ * Earlier ok / mismatch result for a root, if any
+ */
+export function getCachedVerification(root: string, tokenId?: number): StorageVerification | undefined {
+  return getVerificationCache().get(cacheKey(root, tokenId));
+}
+
+/**
+ * Verify the content stored under a root
+ * @param tokenId - When given, the token must also reference the root
+ */
+export async function verifyStoredFile(root: string, tokenId?: number): Promise<StorageVerification> {
+  const cached = getCachedVerification(root, tokenId);
+  if (cached) return cached;
+
+  const verification = await checkStoredFile(root, tokenId);
+  if (verification.status !== 'missing') {
+    const cache = getVerificationCache();
+    if (cache.size >= VERIFICATION_CACHE_SIZE) {
+      cache.delete(cache.keys().next().value!);
+    }
+    cache.set(cacheKey(root, tokenId), verification);
+  }
+  return verification;
+}
+
+// Throws when the backend is unavailable or the file is over STORAGE_VERIFY_MAX_BYTES
+async function checkStoredFile(root: string, tokenId?: number): Promise<StorageVerification> {
+  const backend = getStorageBackend();
+  const bytes = await backend.get(root, { maxBytes: STORAGE_VERIFY_MAX_BYTES });
+
+  if (!bytes || bytes.length === 0) {
+    return { root, tokenId, status: 'missing', message: `Not found in ${backend.name} storage` };
+  }
+
+  const computedRoot = computeMerkleRoot(bytes);
+  const result = { root, tokenId, computedRoot, size: bytes.length };
+
+  if (computedRoot !== root.toLowerCase()) {
+    return { ...result, status: 'mismatch', message: 'Stored bytes do not hash to the requested root' };
+  }
+
+  if (tokenId === undefined) {
+    return { ...result, status: 'ok', message: 'Content matches its root' };
+  }
+
+  const record = await getNFTData(getReadProvider(), tokenId);
+  const onChainField = NFT_ROOT_FIELDS.find(field => record[field].toLowerCase() === computedRoot);
+
+  if (!onChainField) {
+    return { ...result, status: 'mismatch', message: `Token #${tokenId} does not reference this root` };
+  }
+
+  return { ...result, onChainField, status: 'ok', message: `Content matches its root and token #${tokenId}` };
+}
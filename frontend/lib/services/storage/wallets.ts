@@ -0,0 +1,170 @@
+/**
+ * 0G Storage Wallets
+ * Server wallets that pay Flow fees: any number of funded keys used round-robin, each
+ * behind a NonceManager so concurrent uploads never reuse a nonce. A wallet is skipped
+ * once paying would leave it below the minimum balance, and uploads are rejected
+ * before anything is spent when no wallet can pay.
+ * Keys: ZG_STORAGE_PRIVATE_KEYS (comma-separated) or ZG_STORAGE_PRIVATE_KEY.
+ * Threshold: ZG_STORAGE_MIN_BALANCE in 0G (default: 0.01).
+ */
+
+import { ethers } from 'ethers';
+import { ZG_EVM_RPC } from './config';
+
+const PRIVATE_KEYS = (process.env.ZG_STORAGE_PRIVATE_KEYS || process.env.ZG_STORAGE_PRIVATE_KEY || '')
+  .split(',')
+  .map(key => key.trim())
+  .filter(Boolean);
+
+const DEFAULT_MIN_BALANCE = '0.01';
+
+function parseMinBalance(value: string | undefined): bigint {
+  try {
+    return ethers.parseEther(value || DEFAULT_MIN_BALANCE);
+  } catch {
+    console.warn(`[0G Storage] Invalid ZG_STORAGE_MIN_BALANCE "${value}", using ${DEFAULT_MIN_BALANCE} 0G`);
+    return ethers.parseEther(DEFAULT_MIN_BALANCE);
+  }
+}
+
+export const ZG_STORAGE_MIN_BALANCE = parseMinBalance(process.env.ZG_STORAGE_MIN_BALANCE);
+
+interface ManagedWallet {
+  address: string;
+  signer: ethers.NonceManager;
+  // Transactions sent and not yet confirmed, and the 0G they may still spend
+  inFlight: number;
+  reserved: bigint;
+}
+
+// A wallet reserved for one transaction - release once it is confirmed or has failed
+export interface WalletLease {
+  address: string;
+  signer: ethers.NonceManager;
+  release(failed?: boolean): void;
+}
+
+export interface StorageWalletStatus {
+  address: string;
+  balance: string;
+  belowMinimum: boolean;
+  // Confirmed and pending transaction counts - a gap means transactions are waiting
+  nonce: number;
+  pendingNonce: number;
+  inFlight: number;
+  reserved: string;
+}
+
+type GasPricing = Pick<ethers.TransactionRequest, 'gasPrice' | 'maxFeePerGas' | 'maxPriorityFeePerGas'>;
+
+/**
+ * Current network gas pricing (EIP-1559 fees when the chain reports them)
+ */
+export async function getGasPricing(provider: ethers.Provider): Promise<GasPricing> {
+  const feeData = await provider.getFeeData();
+
+  if (feeData.maxFeePerGas && feeData.maxPriorityFeePerGas) {
+    return { maxFeePerGas: feeData.maxFeePerGas, maxPriorityFeePerGas: feeData.maxPriorityFeePerGas };
+  }
+  return feeData.gasPrice ? { gasPrice: feeData.gasPrice } : {};
+}
+
+export class StorageWalletManager {
+  private wallets: ManagedWallet[];
+  private cursor = 0;
+
+  constructor(private provider: ethers.Provider, privateKeys: string[]) {
+    this.wallets = privateKeys.map(key => {
+      const wallet = new ethers.Wallet(key, provider);
+      return { address: wallet.address, signer: new ethers.NonceManager(wallet), inFlight: 0, reserved: BigInt(0) };
+    });
+  }
+
+  get size(): number {
+    return this.wallets.length;
+  }
+
+  /**
+   * Reserve the next wallet (round-robin) that can spend `cost` and keep the minimum balance
+   * @returns Lease, or an error with the HTTP status to report
+   */
+  async acquire(cost: bigint): Promise<{ lease?: WalletLease; error?: string; status?: number }> {
+    if (this.wallets.length === 0) {
+      console.error('[0G Storage] No server private key configured');
+      return { error: 'Storage service not configured. Set ZG_STORAGE_PRIVATE_KEYS (or ZG_STORAGE_PRIVATE_KEY).', status: 500 };
+    }
+
+    const start = this.cursor;
+    this.cursor = (this.cursor + 1) % this.wallets.length;
+
+    for (let i = 0; i < this.wallets.length; i++) {
+      const wallet = this.wallets[(start + i) % this.wallets.length];
+      const balance = await this.provider.getBalance(wallet.address);
+      const available = balance - wallet.reserved;
+
+      if (available - cost < ZG_STORAGE_MIN_BALANCE) {
+        console.warn(`[0G Storage] Wallet ${wallet.address} too low: ${ethers.formatEther(available)} 0G available`);
+        continue;
+      }
+
+      console.log(`[0G Storage] Using wallet: ${wallet.address} (${ethers.formatEther(available)} 0G available)`);
+      wallet.inFlight++;
+      wallet.reserved += cost;
+
+      let released = false;
+      return {
+        lease: {
+          address: wallet.address,
+          signer: wallet.signer,
+          release: (failed = false) => {
+            if (released) return;
+            released = true;
+            wallet.inFlight--;
+            wallet.reserved -= cost;
+            // A failed send may have consumed a nonce locally - reload it from the chain
+            if (failed) wallet.signer.reset();
+          },
+        },
+      };
+    }
+
+    return {
+      error: `Storage wallets are below the minimum balance of ${ethers.formatEther(ZG_STORAGE_MIN_BALANCE)} 0G ` +
+        `(this upload needs up to ${ethers.formatEther(cost)} 0G). Fund ${this.wallets.map(w => w.address).join(', ')}.`,
+      status: 503,
+    };
+  }
+
+  /**
+   * Balances and nonces of every wallet (diagnostics)
+   */
+  async getStatus(): Promise<StorageWalletStatus[]> {
+    return Promise.all(this.wallets.map(async wallet => {
+      const [balance, nonce, pendingNonce] = await Promise.all([
+        this.provider.getBalance(wallet.address),
+        this.provider.getTransactionCount(wallet.address, 'latest'),
+        this.provider.getTransactionCount(wallet.address, 'pending'),
+      ]);
+
+      return {
+        address: wallet.address,
+        balance: `${ethers.formatEther(balance)} 0G`,
+        belowMinimum: balance - wallet.reserved < ZG_STORAGE_MIN_BALANCE,
+        nonce,
+        pendingNonce,
+        inFlight: wallet.inFlight,
+        reserved: `${ethers.formatEther(wallet.reserved)} 0G`,
+      };
+    }));
+  }
+}
+
+// Keep one manager per server process so nonces and reservations are shared (survives dev reloads)
+const globalForWallets = globalThis as typeof globalThis & { __storageWallets?: StorageWalletManager };
+
+export function getStorageWallets(): StorageWalletManager {
+  if (!globalForWallets.__storageWallets) {
+    globalForWallets.__storageWallets = new StorageWalletManager(new ethers.JsonRpcProvider(ZG_EVM_RPC), PRIVATE_KEYS);
+  }
+  return globalForWallets.__storageWallets;
+}
@@ -0,0 +1,570 @@
+/**
+ * 0G Storage Backend
+ * Server-side 0G SDK upload: Flow submission (server wallet, or verified
+ * user-paid tx) followed by the segment upload to storage nodes.
+ * Every upload is tracked in the upload ledger, so repeats are free and
+ * interrupted uploads resume with the segments still missing. Batches share
+ * Flow transactions (batchSubmit) and upload segments concurrently.
+ */
+
+import { Indexer, MemData, MerkleTree, SegmentWithProof, StorageNode } from '@0glabs/0g-ts-sdk';
+import { ethers } from 'ethers';
+import { createSubmission, getSubmissionSectors, ZG_SECTOR_SIZE, ZG_SEGMENT_MAX_SECTORS, ZG_SEGMENT_SIZE, ZgSubmission } from '../zgMerkleTree';
+import { ZG_STORAGE_MODE } from '../zgStorageService';
+import { getZgGatewayUrl, ZG_EVM_RPC, ZG_INDEXER_RPC } from './config';
+import { getUploadLedger, updateUploadEntry } from './ledger';
+import { getPricePerSector } from './quote';
+import { StorageBackend, StorageBackendName, StorageGetOptions, StoragePutOptions, StoragePutResult } from './types';
+import { getGasPricing, getStorageWallets } from './wallets';
+
+const FLOW_SUBMIT_EVENT_ABI = ['event Submit(address indexed sender, bytes32 indexed identity, uint256 submissionIndex, uint256 startPos, uint256 length, tuple(uint256 length, bytes tags, tuple(bytes32 root, uint256 height)[] nodes) submission)'];
+
+// Submissions per Flow batchSubmit transaction
+const MAX_BATCH_SUBMISSIONS = 10;
+
+// Gas reserved per submission when checking a wallet can pay (the actual limit is estimated)
+const SUBMIT_GAS_BUDGET = BigInt(1000000);
+
+// Files whose segments are uploaded at the same time
+const SEGMENT_UPLOAD_CONCURRENCY = 3;
+
+// How long to wait for storage nodes to index a new submission
+const FILE_INFO_ATTEMPTS = 30;
+const FILE_INFO_INTERVAL_MS = 2000;
+
+interface SubmitResult {
+  txHash?: string;
+  // Flow submission index per submission, in submission order
+  submissionIndexes?: number[];
+  error?: string;
+  status?: number;
+}
+
+// Uploads in progress by root (survives Next.js dev module reloads) - a second request
+// for the same content waits for the first instead of paying for it again
+const globalForUploads = globalThis as typeof globalThis & { __zgUploadsInFlight?: Map<string, Promise<StoragePutResult>> };
+
+function getUploadsInFlight(): Map<string, Promise<StoragePutResult>> {
+  if (!globalForUploads.__zgUploadsInFlight) {
+    globalForUploads.__zgUploadsInFlight = new Map();
+  }
+  return globalForUploads.__zgUploadsInFlight;
+}
+
+// File prepared for upload: bytes plus the SDK Merkle tree used for segment proofs
+interface PreparedFile {
+  data: Uint8Array;
+  tree: MerkleTree;
+  root: string;
+  numSegments: number;
+}
+
+async function prepareFile(data: Uint8Array): Promise<PreparedFile> {
+  const file = new MemData(data);
+  const [tree, treeErr] = await file.merkleTree();
+
+  if (treeErr || !tree) {
+    throw new Error(`Failed to create merkle tree: ${treeErr}`);
+  }
+
+  const root = tree.rootHash();
+  if (!root) {
+    throw new Error('Failed to compute merkle root');
+  }
+
+  return { data, tree, root, numSegments: file.numSegments() };
+}
+
+/**
+ * Storage nodes for the upload and the Flow contract they follow
+ */
+async function connectStorage() {
+  // Initialize provider
+  const provider = new ethers.JsonRpcProvider(ZG_EVM_RPC);
+
+  // Initialize 0G Indexer
+  const indexer = new Indexer(ZG_INDEXER_RPC);
+
+  // Get storage node info to find flow contract address
+  const [nodes, nodesErr] = await indexer.selectNodes(1);
+  if (nodesErr || nodes.length === 0) {
+    throw new Error(`Failed to select storage nodes: ${nodesErr}`);
+  }
+
+  const nodeStatus = await nodes[0].getStatus();
+  const flowAddress = nodeStatus?.networkIdentity?.flowAddress;
+  if (!flowAddress) {
+    throw new Error('Could not get flow contract address from storage node');
+  }
+  console.log('[0G Storage] Flow contract:', flowAddress);
+
+  return { provider, nodes, flowAddress };
+}
+
+/**
+ * Submission indexes from the Flow Submit events in a receipt (one per submission, in order)
+ */
+function findSubmissionIndexes(receipt: ethers.TransactionReceipt | null, flowAddress: string): number[] {
+  const flowInterface = new ethers.Interface(FLOW_SUBMIT_EVENT_ABI);
+  const indexes: number[] = [];
+
+  for (const log of receipt?.logs || []) {
+    if (log.address.toLowerCase() !== flowAddress.toLowerCase()) continue;
+
+    try {
+      const parsed = flowInterface.parseLog({ topics: log.topics as string[], data: log.data });
+      if (parsed?.name === 'Submit') {
+        indexes.push(Number(parsed.args.submissionIndex));
+      }
+    } catch {
+      // Not a Submit event
+    }
+  }
+
+  return indexes;
+}
+
+/**
+ * Check that a user-sent transaction submitted exactly this data to the Flow contract
+ */
+async function verifyUserSubmission(
+  provider: ethers.Provider,
+  flowAddress: string,
+  txHash: string,
+  expected: ZgSubmission
+): Promise<SubmitResult> {
+  const receipt = await provider.getTransactionReceipt(txHash);
+  if (!receipt || receipt.status !== 1) {
+    return { error: 'Storage transaction not found or reverted', status: 400 };
+  }
+
+  const flowInterface = new ethers.Interface(FLOW_SUBMIT_EVENT_ABI);
+  const expectedNodes = expected.nodes.map(node => `${node.root.toLowerCase()}:${node.height}`).join(',');
+
+  for (const log of receipt.logs) {
+    if (log.address.toLowerCase() !== flowAddress.toLowerCase()) continue;
+
+    try {
+      const parsed = flowInterface.parseLog({ topics: log.topics as string[], data: log.data });
+      if (parsed?.name !== 'Submit') continue;
+
+      const { submission } = parsed.args;
+      const nodes = submission.nodes
+        .map((node: { root: string; height: bigint }) => `${node.root.toLowerCase()}:${node.height}`)
+        .join(',');
+
+      if (Number(submission.length) === expected.length && nodes === expectedNodes) {
+        return { txHash, submissionIndexes: [Number(parsed.args.submissionIndex)] };
+      }
+    } catch {
+      // Not a Submit event
+    }
+  }
+
+  return { error: 'Transaction does not submit this data', status: 400 };
+}
+
+/**
+ * Pay for Flow submissions with the server wallet - one `submit`, or a single `batchSubmit` for several files
+ */
+async function submitWithServerWallet(
+  submissions: ZgSubmission[],
+  provider: ethers.JsonRpcProvider,
+  flowAddress: string
+): Promise<SubmitResult> {
+  // User-pays deployments never spend the server wallet
+  if (ZG_STORAGE_MODE === 'user') {
+    return { error: 'Server-paid uploads are disabled. Sign the storage transaction with your wallet.', status: 403 };
+  }
+
+  console.log(`[0G Storage] Submitting ${submissions.length} file(s), ${submissions.reduce((sum, s) => sum + s.length, 0)} bytes`);
+
+  // Same per-sector pricing as the quote endpoint
+  const pricePerSector = await getPricePerSector(provider, flowAddress);
+  const numSectors = submissions.reduce((sum, s) => sum + getSubmissionSectors(s), 0);
+  const fee = pricePerSector * BigInt(numSectors);
+  console.log(`[0G Storage] Fee: ${ethers.formatEther(fee)} 0G (${numSectors} sectors)`);
+
+  // Reject before spending anything if no wallet can cover fee and gas above its minimum balance
+  const gasPricing = await getGasPricing(provider);
+  const maxGasPrice = BigInt(gasPricing.maxFeePerGas ?? gasPricing.gasPrice ?? 0);
+  const { lease, error, status } = await getStorageWallets().acquire(
+    fee + SUBMIT_GAS_BUDGET * BigInt(submissions.length) * maxGasPrice
+  );
+  if (!lease) {
+    return { error, status };
+  }
+
+  // Build full Submission structs (SDK ABI is missing submitter field!)
+  const fullSubmissions = submissions.map(data => ({ data, submitter: lease.address }));
+
+  // Correct ABI with submitter field
+  const flowSubmitAbi = [
+    'function submit(((uint256 length, bytes tags, (bytes32 root, uint256 height)[] nodes) data, address submitter) submission) payable returns (uint256, bytes32, uint256, uint256)',
+    'function batchSubmit(((uint256 length, bytes tags, (bytes32 root, uint256 height)[] nodes) data, address submitter)[] submissions) payable returns (uint256[], bytes32[], uint256[], uint256[])'
+  ];
+
+  const flowContract = new ethers.Contract(flowAddress, flowSubmitAbi, lease.signer);
+  const overrides = { value: fee, ...gasPricing };
+
+  // Submit to Flow contract
+  console.log('[0G Storage] Submitting to Flow contract...');
+  let tx: ethers.ContractTransactionResponse;
+  let receipt: ethers.ContractTransactionReceipt | null;
+  try {
+    tx = fullSubmissions.length === 1
+      ? await flowContract.submit(fullSubmissions[0], overrides)
+      : await flowContract.batchSubmit(fullSubmissions, overrides);
+
+    console.log(`[0G Storage] TX sent: ${tx.hash}`);
+    receipt = await tx.wait();
+    console.log(`[0G Storage] TX confirmed in block ${receipt?.blockNumber}`);
+    lease.release();
+  } catch (error) {
+    lease.release(true);
+    throw error;
+  }
+
+  const submissionIndexes = findSubmissionIndexes(receipt, flowAddress);
+  console.log(`[0G Storage] Submission indexes: ${submissionIndexes.join(', ')}`);
+
+  return { txHash: tx.hash, submissionIndexes };
+}
+
+/**
+ * Record a paid (or previously made) Flow submission in the upload ledger
+ */
+async function recordSubmission(file: PreparedFile, txHash?: string, submissionIndex?: number): Promise<void> {
+  await getUploadLedger().save({
+    root: file.root,
+    size: file.data.length,
+    status: 'submitted',
+    txHash,
+    submissionIndex,
+    totalSegments: file.numSegments,
+    uploadedSegments: [],
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+  });
+}
+
+/**
+ * Poll a storage node until it has indexed the file's submission
+ */
+async function waitForFileInfo(node: StorageNode, root: string) {
+  for (let attempt = 0; attempt < FILE_INFO_ATTEMPTS; attempt++) {
+    const info = await node.getFileInfo(root, false);
+    if (info) return info;
+    await new Promise(resolve => setTimeout(resolve, FILE_INFO_INTERVAL_MS));
+  }
+  return null;
+}
+
+/**
+ * Segment with its Merkle proof, as the storage nodes expect it (SDK `Uploader.getSegment`)
+ */
+function getSegmentWithProof(data: Uint8Array, tree: MerkleTree, root: string, index: number): SegmentWithProof {
+  // Last segment is padded to whole sectors only
+  const sectorEnd = Math.ceil(data.length / ZG_SECTOR_SIZE) * ZG_SECTOR_SIZE;
+  const start = index * ZG_SEGMENT_SIZE;
+  const segment = new Uint8Array(Math.min(ZG_SEGMENT_SIZE, sectorEnd - start));
+  segment.set(data.subarray(start, start + segment.length));
+
+  return {
+    root,
+    data: ethers.encodeBase64(segment),
+    index,
+    proof: tree.proofAt(index),
+    fileSize: data.length,
+  };
+}
+
+function isAlreadyUploadedError(error: unknown): boolean {
+  const details = (error as { data?: unknown })?.data;
+  return typeof details === 'string' && details.includes('already uploaded and finalized');
+}
+
+/**
+ * Send the segments the ledger has not recorded yet
+ * @returns Error message, or null once every segment is stored
+ */
+async function uploadMissingSegments(
+  nodes: StorageNode[],
+  tree: MerkleTree,
+  data: Uint8Array,
+  root: string
+): Promise<string | null> {
+  const info = await waitForFileInfo(nodes[0], root);
+  if (!info) {
+    return 'Storage node has not indexed the submission yet';
+  }
+
+  const entry = await updateUploadEntry(root, e => {
+    e.status = 'uploading';
+    e.submissionIndex ??= info.tx.seq;
+  });
+  if (!entry) return 'Upload ledger entry missing';
+
+  // Nodes only store the segments of their shard (by position in the flow)
+  const shards = await Promise.all(nodes.map(node => node.getShardConfig()));
+  const startSegment = Math.floor(info.tx.startEntryIndex / ZG_SEGMENT_MAX_SECTORS);
+  const uploaded = new Set(entry.uploadedSegments);
+
+  for (let index = 0; index < entry.totalSegments; index++) {
+    if (uploaded.has(index)) continue;
+
+    const segment = getSegmentWithProof(data, tree, root, index);
+
+    try {
+      for (let i = 0; i < nodes.length; i++) {
+        const { shardId, numShard } = shards[i];
+        if (numShard > 1 && (startSegment + index) % numShard !== shardId) continue;
+
+        try {
+          await nodes[i].uploadSegmentsByTxSeq([segment], info.tx.seq);
+        } catch (error) {
+          if (!isAlreadyUploadedError(error)) throw error;
+        }
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Segment upload failed';
+      console.warn(`[0G Storage] Segment ${index} upload failed:`, message);
+      await updateUploadEntry(root, e => {
+        e.error = `Segment ${index}: ${message}`;
+      });
+      return `Uploaded ${uploaded.size}/${entry.totalSegments} segments - retry to resume`;
+    }
+
+    uploaded.add(index);
+    await updateUploadEntry(root, e => {
+      e.uploadedSegments = Array.from(uploaded);
+    });
+  }
+
+  await updateUploadEntry(root, e => {
+    e.status = 'complete';
+    e.error = undefined;
+  });
+  return null;
+}
+
+export class ZgStorageBackend implements StorageBackend {
+  readonly name: StorageBackendName = 'zg';
+
+  async put(data: Uint8Array, options: StoragePutOptions = {}): Promise<StoragePutResult> {
+    const [result] = await this.putBatch([data], options);
+    return result;
+  }
+
+  /**
+   * Pays for every new file in as few Flow transactions as possible, then uploads
+   * segments with a bounded pool of concurrent files. Results follow the input order.
+   */
+  async putBatch(files: Uint8Array[], options: StoragePutOptions = {}): Promise<StoragePutResult[]> {
+    const prepared: PreparedFile[] = [];
+    for (const data of files) {
+      prepared.push(await prepareFile(data));
+    }
+
+    const results: StoragePutResult[] = new Array(files.length);
+
+    // Identical files in one batch are uploaded once
+    const firstIndex = new Map<string, number>();
+    prepared.forEach(({ root }, i) => {
+      if (!firstIndex.has(root)) firstIndex.set(root, i);
+    });
+
+    // Claim each root before anything is paid (no await between check and claim)
+    const inFlight = getUploadsInFlight();
+    const claimed = new Map<string, (result: StoragePutResult) => void>();
+    const waiting = new Map<number, Promise<StoragePutResult>>();
+    for (const [root, i] of firstIndex) {
+      const running = inFlight.get(root);
+      if (running) {
+        waiting.set(i, running);
+      } else {
+        inFlight.set(root, new Promise(resolve => claimed.set(root, resolve)));
+      }
+    }
+
+    try {
+      const owned = [...claimed.keys()].map(root => firstIndex.get(root)!);
+      await this.putOwned(prepared, owned, options, results);
+    } finally {
+      for (const [root, resolve] of claimed) {
+        resolve(results[firstIndex.get(root)!] ?? { error: 'Upload failed', status: 502 });
+        inFlight.delete(root);
+      }
+    }
+
+    for (const [i, running] of waiting) {
+      console.log(`[0G Storage] Waiting for the upload already in progress: ${prepared[i].root}`);
+      const result = await running;
+      results[i] = result.error ? result : { ...result, reused: true };
+    }
+
+    return prepared.map(({ root }, i) => results[i] ?? results[firstIndex.get(root)!]);
+  }
+
+  /**
+   * Store the files this call claimed (one index per root), writing into results
+   */
+  private async putOwned(
+    prepared: PreparedFile[],
+    indexes: number[],
+    options: StoragePutOptions,
+    results: StoragePutResult[]
+  ): Promise<void> {
+    const ledger = getUploadLedger();
+
+    // Identical content already stored - nothing to pay for or send
+    const pending: number[] = [];
+    for (const i of indexes) {
+      const { root } = prepared[i];
+      const existing = await ledger.get(root);
+      if (existing?.status === 'complete') {
+        console.log(`[0G Storage] ♻️ Already uploaded: ${root}`);
+        results[i] = { root, txHash: existing.txHash, reused: true };
+      } else {
+        pending.push(i);
+      }
+    }
+
+    if (pending.length > 0) {
+      const { provider, nodes, flowAddress } = await connectStorage();
+
+      // Ledger entries left by interrupted uploads are resumed without paying again
+      const unsubmitted: number[] = [];
+      for (const i of pending) {
+        const { root } = prepared[i];
+        const existing = await ledger.get(root);
+
+        if (existing) {
+          console.log(`[0G Storage] Resuming upload: ${existing.uploadedSegments.length}/${existing.totalSegments} segments stored`);
+        } else if (await nodes[0].getFileInfo(root, false)) {
+          // Submitted before (e.g. by another deployment) - only the segments may be missing
+          console.log(`[0G Storage] Already submitted to the Flow contract: ${root}`);
+          await recordSubmission(prepared[i]);
+        } else {
+          unsubmitted.push(i);
+        }
+      }
+
+      const paid = new Set<number>();
+
+      if (options.txHash) {
+        // User already paid for the submissions - make sure the transaction covers each file
+        console.log(`[0G Storage] Verifying user submission: ${options.txHash}`);
+        for (const i of unsubmitted) {
+          const verified = await verifyUserSubmission(provider, flowAddress, options.txHash, createSubmission(prepared[i].data));
+          if (verified.error) {
+            results[i] = { error: verified.error, status: verified.status };
+          } else {
+            await recordSubmission(prepared[i], verified.txHash, verified.submissionIndexes?.[0]);
+            paid.add(i);
+          }
+        }
+      } else {
+        for (let start = 0; start < unsubmitted.length; start += MAX_BATCH_SUBMISSIONS) {
+          const chunk = unsubmitted.slice(start, start + MAX_BATCH_SUBMISSIONS);
+          const submitted = await submitWithServerWallet(chunk.map(i => createSubmission(prepared[i].data)), provider, flowAddress);
+
+          for (const [j, i] of chunk.entries()) {
+            if (submitted.error) {
+              results[i] = { error: submitted.error, status: submitted.status };
+            } else {
+              await recordSubmission(prepared[i], submitted.txHash, submitted.submissionIndexes?.[j]);
+              paid.add(i);
+            }
+          }
+        }
+      }
+
+      // STEP 2: Upload actual data to storage nodes
+      // The on-chain submission registers the merkle root, but we need to upload
+      // the actual file data to storage nodes so it can be retrieved
+      const queue = pending.filter(i => !results[i]);
+      console.log(`[0G Storage] Uploading data segments for ${queue.length} file(s)...`);
+
+      const uploadNext = async () => {
+        for (let i = queue.shift(); i !== undefined; i = queue.shift()) {
+          const { tree, data, root } = prepared[i];
+
+          let uploadError: string | null;
+          try {
+            uploadError = await uploadMissingSegments(nodes, tree, data, root);
+          } catch (error) {
+            uploadError = error instanceof Error ? error.message : 'Segment upload failed';
+          }
+
+          if (uploadError) {
+            console.warn(`[0G Storage] Data upload incomplete for ${root}: ${uploadError}`);
+            results[i] = { error: uploadError, status: 502 };
+          } else {
+            console.log(`[0G Storage] ✅ Data uploaded to storage nodes: ${root}`);
+            const entry = await ledger.get(root);
+            results[i] = { root, txHash: entry?.txHash, reused: !paid.has(i) };
+          }
+        }
+      };
+
+      await Promise.all(Array.from({ length: SEGMENT_UPLOAD_CONCURRENCY }, uploadNext));
+    }
+  }
+
+  async get(root: string, options: StorageGetOptions = {}): Promise<Uint8Array | null> {
+    const { maxBytes } = options;
+    const response = await fetch(this.urlFor(root));
+
+    // 4xx: the gateway has no such file; 5xx: the gateway itself failed
+    if (response.status >= 500) {
+      await response.body?.cancel();
+      throw new Error(`0G gateway returned ${response.status}`);
+    }
+    if (!response.ok) {
+      await response.body?.cancel();
+      return null;
+    }
+
+    const declaredSize = Number(response.headers.get('content-length'));
+    if (maxBytes !== undefined && declaredSize > maxBytes) {
+      await response.body?.cancel();
+      throw new Error(`File is ${declaredSize} bytes, over the ${maxBytes} byte limit`);
+    }
+    if (maxBytes === undefined || !response.body) {
+      return new Uint8Array(await response.arrayBuffer());
+    }
+
+    // Content-Length may be missing or wrong - count while streaming and stop past the limit
+    const reader = response.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      size += value.length;
+      if (size > maxBytes) {
+        await reader.cancel();
+        throw new Error(`File is over the ${maxBytes} byte limit`);
+      }
+      chunks.push(value);
+    }
+
+    const data = new Uint8Array(size);
+    let offset = 0;
+    for (const chunk of chunks) {
+      data.set(chunk, offset);
+      offset += chunk.length;
+    }
+    return data;
+  }
+
+  async exists(root: string): Promise<boolean> {
+    const locations = await new Indexer(ZG_INDEXER_RPC).getFileLocations(root);
+    return locations.length > 0;
+  }
+
+  urlFor(root: string): string {
+    return getZgGatewayUrl(root);
+  }
+}
@@ -1,143 +1,82 @@
 /**
  * Storage Service - 0G Decentralized Storage
- * Uploads to 0G Storage via API route (server handles SDK)
- *
- * Flow:
- * 1. Client sends data to API route
- * 2. API route uploads to 0G using SDK with backend wallet
- * 3. User only signs once for NFT minting
+ * Storage URLs, metadata and verification helpers. Uploads go through
+ * zgStorageService (/api/zg-storage).
  */
 
-// 0G Storage configuration - use turbo indexer with correct endpoint
-const STORAGE_GATEWAY = process.env.NEXT_PUBLIC_0G_GATEWAY || 'https://indexer-storage-testnet-turbo.0g.ai';
+import { ItemTrait } from '@/lib/types';
+import { ImageDimensions, formatDimensions } from './imageUtils';
+import { getApiStorageUrl, getZgGatewayUrl, STORAGE_BACKEND, ZG_GATEWAY } from './storage/config';
+import { StorageVerification } from './storage/types';
 
-export interface StorageResult {
-  hash: string;
-  success: boolean;
-  error?: string;
-  gatewayUrl?: string;
-  txHash?: string;
-  onChain?: boolean;
+export interface NFTAttribute {
+  trait_type: string;
+  value: string;
+}
+
+// Link from an NFT back to the sketch it was generated from (also recorded on-chain)
+export interface NFTProvenance {
+  originalSketch: string; // Gateway URL
+  originalSketchHash: string; // 0G Storage root
 }
 
 export interface NFTMetadata {
   name: string;
   description: string;
   image: string;
-  attributes: Array<{
-    trait_type: string;
-    value: string;
-  }>;
+  attributes: NFTAttribute[];
+  provenance?: NFTProvenance;
 }
 
 /**
  * Get gateway URL for a storage hash
- * Uses 0G indexer query parameter format: /file?root={hash}
+ * 0G indexer for the 0G backend, this app's /api/storage route for local and in-memory storage
  */
 export function getStorageUrl(hash: string): string {
-  return `${STORAGE_GATEWAY}/file?root=${hash}`;
+  return STORAGE_BACKEND === 'zg' ? getZgGatewayUrl(hash) : getApiStorageUrl(hash);
 }
 
+// Roots stored off 0G this session - minting them needs a warning
+const mockStoredRoots = new Set<string>();
+
 /**
- * Upload image to 0G Storage
- * @param base64Image - Base64 encoded image data URL
- * @returns Storage hash and gateway URL
+ * Record a root stored off 0G (local / in-memory backend)
  */
-export async function uploadImage(base64Image: string): Promise<StorageResult> {
-  try {
-    console.log('[0G Storage] Starting image upload...');
-
-    const response = await fetch('/api/upload-to-0g', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        data: base64Image,
-        type: 'image',
-      }),
-    });
-
-    const result = await response.json();
-
-    if (!response.ok || !result.success) {
-      throw new Error(result.error || 'Upload failed');
-    }
-
-    console.log(`[0G Storage] Image uploaded successfully!`);
-    console.log(`[0G Storage] Hash: ${result.hash}`);
-    if (result.onChain) {
-      console.log(`[0G Storage] TX Hash: ${result.txHash}`);
-    }
-
-    return {
-      hash: result.hash,
-      success: true,
-      gatewayUrl: getStorageUrl(result.hash),
-      txHash: result.txHash,
-      onChain: result.onChain,
-    };
-  } catch (error) {
-    console.error('[0G Storage] Image upload error:', error);
-    return {
-      hash: '',
-      success: false,
-      error: error instanceof Error ? error.message : 'Failed to upload image',
-    };
-  }
+export function markMockStored(root: string): void {
+  mockStoredRoots.add(root.toLowerCase());
 }
 
 /**
- * Upload NFT metadata to 0G Storage
- * @param metadata - NFT metadata object
- * @returns Storage hash for the metadata
+ * Whether a root was stored off 0G (see markMockStored) rather than on real storage
  */
-export async function uploadMetadata(metadata: NFTMetadata): Promise<StorageResult> {
-  try {
-    console.log('[0G Storage] Starting metadata upload...');
-
-    const response = await fetch('/api/upload-to-0g', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        data: metadata,
-        type: 'json',
-      }),
-    });
-
-    const result = await response.json();
+export function isMockStored(root: string): boolean {
+  return mockStoredRoots.has(root.toLowerCase());
+}
 
-    if (!response.ok || !result.success) {
-      throw new Error(result.error || 'Upload failed');
-    }
+/**
+ * Read stored content back and check it against its root (and the token, if given)
+ * @returns Verification result - throws when the check itself could not run
+ */
+export async function verifyStoredContent(root: string, tokenId?: number): Promise<StorageVerification> {
+  const params = new URLSearchParams({ root });
+  if (tokenId !== undefined) params.set('tokenId', String(tokenId));
 
-    console.log(`[0G Storage] Metadata uploaded successfully!`);
-    console.log(`[0G Storage] Hash: ${result.hash}`);
-    if (result.onChain) {
-      console.log(`[0G Storage] TX Hash: ${result.txHash}`);
-    }
+  const response = await fetch(`/api/storage/verify?${params}`);
+  const result = await response.json();
 
-    return {
-      hash: result.hash,
-      success: true,
-      gatewayUrl: getStorageUrl(result.hash),
-      txHash: result.txHash,
-      onChain: result.onChain,
-    };
-  } catch (error) {
-    console.error('[0G Storage] Metadata upload error:', error);
-    return {
-      hash: '',
-      success: false,
-      error: error instanceof Error ? error.message : 'Failed to upload metadata',
-    };
+  if (!response.ok || !result.success) {
+    throw new Error(result.details || result.error || 'Verification failed');
   }
+
+  return result;
 }
 
 /**
  * Create NFT metadata object
+ * @param dimensions - Actual pixel size of the generated image, recorded as "WIDTHxHEIGHT"
+ * @param traits - Sampled collection traits, listed before the generation attributes
+ * @param sketchHash - 0G Storage root of the original sketch, recorded as provenance
+ * @param generator - Display name of the image provider that generated the image
  */
 export function createMetadata(
   name: string,
@@ -145,18 +84,28 @@ export function createMetadata(
   imageHash: string,
   style: string,
   prompt: string,
-  resolution: string = '1K'
+  dimensions?: ImageDimensions,
+  traits: ItemTrait[] = [],
+  sketchHash?: string,
+  generator?: string
 ): NFTMetadata {
   return {
     name,
     description,
     image: getStorageUrl(imageHash),
     attributes: [
+      ...traits,
       { trait_type: 'Style', value: style },
-      { trait_type: 'Resolution', value: resolution },
-      { trait_type: 'Generator', value: 'Gemini AI' },
+      { trait_type: 'Resolution', value: dimensions ? formatDimensions(dimensions) : 'Unknown' },
+      { trait_type: 'Generator', value: generator || 'Unknown' },
       { trait_type: 'Prompt', value: prompt },
     ],
+    ...(sketchHash && {
+      provenance: {
+        originalSketch: getStorageUrl(sketchHash),
+        originalSketchHash: sketchHash,
+      },
+    }),
   };
 }
 
@@ -164,7 +113,7 @@ export function createMetadata(
  * Check if storage is configured
  */
 export function isStorageConfigured(): boolean {
-  return !!STORAGE_GATEWAY;
+  return !!ZG_GATEWAY;
 }
 
 /**
@@ -172,7 +121,8 @@ export function isStorageConfigured(): boolean {
  */
 export function getStorageConfig() {
   return {
-    gateway: STORAGE_GATEWAY,
+    backend: STORAGE_BACKEND,
+    gateway: ZG_GATEWAY,
     configured: isStorageConfigured(),
   };
 }
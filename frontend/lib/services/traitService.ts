@@ -0,0 +1,250 @@
+/**
+ * Trait Service
+ * Weighted trait schemas, deterministic per-item sampling and rarity stats.
+ * Pure functions - shared by the job worker, image providers and the browser.
+ */
+
+import { ItemTrait, TraitSchema } from '@/lib/types';
+
+const MAX_TRAIT_LAYERS = 12;
+const MAX_TRAIT_VALUES = 30;
+
+// Re-rolls per item when a sampled combination is already taken
+const MAX_UNIQUE_ATTEMPTS = 20;
+
+/**
+ * Default layers - the same ones the variation prompt has always asked the model to vary
+ */
+export const DEFAULT_TRAIT_SCHEMA: TraitSchema = [
+  {
+    name: 'Background',
+    values: [
+      { value: 'Pastel Blue', weight: 30 },
+      { value: 'Sunset Orange', weight: 25 },
+      { value: 'Mint Green', weight: 25 },
+      { value: 'Starry Night', weight: 15 },
+      { value: 'Golden Gradient', weight: 5 },
+    ],
+  },
+  {
+    name: 'Fur',
+    values: [
+      { value: 'Natural', weight: 40 },
+      { value: 'Spotted', weight: 25 },
+      { value: 'Striped', weight: 20 },
+      { value: 'Neon', weight: 10 },
+      { value: 'Crystal', weight: 5 },
+    ],
+  },
+  {
+    name: 'Eyes',
+    values: [
+      { value: 'Brown', weight: 40 },
+      { value: 'Blue', weight: 30 },
+      { value: 'Heterochromia', weight: 20 },
+      { value: 'Laser', weight: 10 },
+    ],
+  },
+  {
+    name: 'Clothing',
+    values: [
+      { value: 'None', weight: 30 },
+      { value: 'Hoodie', weight: 25 },
+      { value: 'Leather Jacket', weight: 20 },
+      { value: 'Space Suit', weight: 15 },
+      { value: 'Royal Robe', weight: 10 },
+    ],
+  },
+  {
+    name: 'Accessories',
+    values: [
+      { value: 'None', weight: 40 },
+      { value: 'Sunglasses', weight: 25 },
+      { value: 'Beanie', weight: 20 },
+      { value: 'Gold Chain', weight: 10 },
+      { value: 'Crown', weight: 5 },
+    ],
+  },
+  {
+    name: 'Expression',
+    values: [
+      { value: 'Happy', weight: 35 },
+      { value: 'Neutral', weight: 30 },
+      { value: 'Surprised', weight: 20 },
+      { value: 'Mischievous', weight: 15 },
+    ],
+  },
+  {
+    name: 'Effects',
+    values: [
+      { value: 'None', weight: 60 },
+      { value: 'Sparkles', weight: 20 },
+      { value: 'Glow Aura', weight: 15 },
+      { value: 'Lightning', weight: 5 },
+    ],
+  },
+];
+
+/**
+ * Check a trait schema coming from a request body
+ * @returns Error message, or null if valid
+ */
+export function validateTraitSchema(schema: unknown): string | null {
+  if (!Array.isArray(schema) || schema.length === 0 || schema.length > MAX_TRAIT_LAYERS) {
+    return `Trait schema must have between 1 and ${MAX_TRAIT_LAYERS} layers`;
+  }
+
+  const names = new Set<string>();
+
+  for (const layer of schema) {
+    if (!layer || typeof layer.name !== 'string' || !layer.name.trim()) {
+      return 'Every trait layer needs a name';
+    }
+    if (names.has(layer.name)) {
+      return `Duplicate trait layer "${layer.name}"`;
+    }
+    names.add(layer.name);
+
+    if (!Array.isArray(layer.values) || layer.values.length === 0 || layer.values.length > MAX_TRAIT_VALUES) {
+      return `Trait layer "${layer.name}" must have between 1 and ${MAX_TRAIT_VALUES} values`;
+    }
+
+    for (const option of layer.values) {
+      if (!option || typeof option.value !== 'string' || !option.value.trim()) {
+        return `Trait layer "${layer.name}" has an empty value`;
+      }
+      if (typeof option.weight !== 'number' || !Number.isFinite(option.weight) || option.weight <= 0) {
+        return `Trait "${layer.name}: ${option.value}" needs a positive weight`;
+      }
+    }
+  }
+
+  return null;
+}
+
+// FNV-1a - stable 32-bit hash so the same seed always yields the same traits
+function hashString(input: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Deterministic trait combination for one item
+ * @param seed - Collection seed (the job id)
+ * @param index - Item position in the collection
+ * @param attempt - Re-roll counter, used to avoid duplicate combinations
+ */
+export function sampleTraits(schema: TraitSchema, seed: string, index: number, attempt = 0): ItemTrait[] {
+  return schema.map(layer => {
+    const total = layer.values.reduce((sum, option) => sum + option.weight, 0);
+    let roll = (hashString(`${seed}:${index}:${attempt}:${layer.name}`) / 0x100000000) * total;
+
+    const picked = layer.values.find(option => (roll -= option.weight) < 0) ?? layer.values[layer.values.length - 1];
+    return { trait_type: layer.name, value: picked.value };
+  });
+}
+
+/**
+ * Trait combinations for a whole collection, re-rolling duplicates where the schema allows
+ */
+export function sampleCollectionTraits(schema: TraitSchema, seed: string, count: number): ItemTrait[][] {
+  const taken = new Set<string>();
+
+  return Array.from({ length: count }, (_, index) => {
+    let traits = sampleTraits(schema, seed, index);
+
+    for (let attempt = 1; taken.has(JSON.stringify(traits)) && attempt < MAX_UNIQUE_ATTEMPTS; attempt++) {
+      traits = sampleTraits(schema, seed, index, attempt);
+    }
+
+    taken.add(JSON.stringify(traits));
+    return traits;
+  });
+}
+
+/**
+ * Trait list for a generation prompt
+ */
+export function formatTraitsForPrompt(traits: ItemTrait[]): string {
+  return traits.map(trait => `- ${trait.trait_type}: ${trait.value}`).join('\n');
+}
+
+export interface TraitValueStats {
+  value: string;
+  count: number;
+  frequency: number; // Share of generated items with this value (0-1)
+  probability?: number; // Configured chance from the schema weights (0-1)
+}
+
+export interface TraitLayerStats {
+  trait_type: string;
+  values: TraitValueStats[]; // Rarest first
+}
+
+export interface ItemRarity {
+  index: number;
+  score: number; // Sum of 1/frequency over the item's traits - higher is rarer
+  rank: number; // 1 = rarest; equal scores share a rank
+}
+
+export interface RaritySummary {
+  total: number;
+  layers: TraitLayerStats[];
+  items: ItemRarity[];
+}
+
+/**
+ * Rarity over the items generated so far
+ * @param items - Traits per item (undefined for items without traits)
+ * @param schema - When given, configured probabilities are reported next to observed frequencies
+ */
+export function computeRaritySummary(items: (ItemTrait[] | undefined)[], schema?: TraitSchema): RaritySummary {
+  const withTraits = items
+    .map((traits, index) => ({ index, traits }))
+    .filter((item): item is { index: number; traits: ItemTrait[] } => !!item.traits?.length);
+  const total = withTraits.length;
+
+  const counts = new Map<string, Map<string, number>>();
+  for (const { traits } of withTraits) {
+    for (const { trait_type, value } of traits) {
+      const layer = counts.get(trait_type) ?? new Map<string, number>();
+      layer.set(value, (layer.get(value) ?? 0) + 1);
+      counts.set(trait_type, layer);
+    }
+  }
+
+  const layers: TraitLayerStats[] = Array.from(counts, ([traitType, values]) => {
+    const schemaLayer = schema?.find(layer => layer.name === traitType);
+    const totalWeight = schemaLayer?.values.reduce((sum, option) => sum + option.weight, 0);
+
+    return {
+      trait_type: traitType,
+      values: Array.from(values, ([value, count]) => {
+        const weight = schemaLayer?.values.find(option => option.value === value)?.weight;
+        return {
+          value,
+          count,
+          frequency: count / total,
+          probability: weight !== undefined && totalWeight ? weight / totalWeight : undefined,
+        };
+      }).sort((a, b) => a.count - b.count),
+    };
+  });
+
+  const scored = withTraits.map(({ index, traits }) => ({
+    index,
+    score: traits.reduce((sum, { trait_type, value }) => sum + total / (counts.get(trait_type)?.get(value) ?? total), 0),
+  }));
+
+  const ranked = [...scored].sort((a, b) => b.score - a.score);
+  const itemsRarity = scored.map(item => ({
+    ...item,
+    rank: ranked.findIndex(other => other.score === item.score) + 1,
+  }));
+
+  return { total, layers, items: itemsRarity };
+}
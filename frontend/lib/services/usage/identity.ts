@@ -0,0 +1,76 @@
+/**
+ * Usage Identity
+ * Who a paid request is metered as: the signed-in (SIWE session) wallet, else the
+ * wallet in a valid signed usage proof, otherwise the client IP - the X-Forwarded-For hop
+ * added by the first of USAGE_TRUSTED_PROXIES proxies in front of the app.
+ */
+
+import { ethers } from 'ethers';
+import { getSession } from '../auth/session';
+import {
+  getUsageProofMessage,
+  USAGE_ADDRESS_HEADER,
+  USAGE_ISSUED_AT_HEADER,
+  USAGE_PROOF_TTL_MS,
+  USAGE_SIGNATURE_HEADER,
+} from './proof';
+import { UsageIdentity } from './types';
+
+// Tolerated clock difference between browser and server
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+// Proxies in front of the app that append to X-Forwarded-For (Railway: 1); 0 = use X-Real-IP
+const USAGE_TRUSTED_PROXIES = parseInt(process.env.USAGE_TRUSTED_PROXIES || '1', 10);
+
+function walletIdentity(address: string): UsageIdentity {
+  const checksummed = ethers.getAddress(address);
+  return { key: `wallet:${checksummed.toLowerCase()}`, type: 'wallet', address: checksummed };
+}
+
+function getClientIp(headers: Headers): string {
+  // Hops left of the ones our own proxies appended are whatever the client sent
+  const hops = headers.get('x-forwarded-for')?.split(',').map(hop => hop.trim()).filter(Boolean) || [];
+  if (USAGE_TRUSTED_PROXIES > 0 && hops.length > 0) {
+    return hops[Math.max(hops.length - USAGE_TRUSTED_PROXIES, 0)];
+  }
+  return headers.get('x-real-ip') || 'unknown';
+}
+
+/**
+ * Resolve the requester of a paid API call
+ * @returns Identity, or an error (401) when a usage proof was sent but does not verify
+ */
+export function getUsageIdentity(headers: Headers): { identity?: UsageIdentity; error?: string; status?: number } {
+  const session = getSession(headers);
+  if (session) {
+    return { identity: walletIdentity(session.address) };
+  }
+
+  const address = headers.get(USAGE_ADDRESS_HEADER);
+  const signature = headers.get(USAGE_SIGNATURE_HEADER);
+  const issuedAt = Number(headers.get(USAGE_ISSUED_AT_HEADER));
+
+  if (!address && !signature) {
+    const ip = getClientIp(headers);
+    return { identity: { key: `ip:${ip}`, type: 'ip' } };
+  }
+
+  if (!address || !signature || !ethers.isAddress(address) || !Number.isFinite(issuedAt)) {
+    return { error: 'Incomplete wallet usage proof', status: 401 };
+  }
+
+  const age = Date.now() - issuedAt;
+  if (age > USAGE_PROOF_TTL_MS || age < -MAX_CLOCK_SKEW_MS) {
+    return { error: 'Wallet usage proof expired - sign again', status: 401 };
+  }
+
+  try {
+    const signer = ethers.verifyMessage(getUsageProofMessage(address, issuedAt), signature);
+    if (signer.toLowerCase() !== address.toLowerCase()) {
+      return { error: 'Wallet usage proof was signed by a different address', status: 401 };
+    }
+  } catch {
+    return { error: 'Invalid wallet usage signature', status: 401 };
+  }
+
+  return { identity: walletIdentity(address) };
+}
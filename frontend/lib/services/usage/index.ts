@@ -0,0 +1,10 @@
+/**
+ * Usage Metering
+ * Server-only: quotas and rate limits for the routes that spend provider
+ * credits and storage wallet funds.
+ */
+
+export * from './types';
+export * from './proof';
+export { getUsageIdentity } from './identity';
+export { consumeUsage, getUsageLimits, getUsageSnapshot, meterUsage, meterVerification, refundUsage } from './quota';
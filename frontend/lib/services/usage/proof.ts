@@ -0,0 +1,27 @@
+/**
+ * Usage Proof
+ * The message a wallet signs to have its usage metered by address (with the wallet's
+ * limits) instead of by IP, and the headers that carry it. For API clients without
+ * a session cookie - the app itself signs in with SIWE (/api/auth).
+ */
+
+export const USAGE_ADDRESS_HEADER = 'X-Usage-Address';
+export const USAGE_SIGNATURE_HEADER = 'X-Usage-Signature';
+export const USAGE_ISSUED_AT_HEADER = 'X-Usage-Issued-At';
+
+// A signature is accepted for a day, then the wallet signs again
+export const USAGE_PROOF_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Message signed by the wallet - the server rebuilds it from the headers to verify
+ */
+export function getUsageProofMessage(address: string, issuedAt: number): string {
+  return [
+    'SketchNFT usage verification',
+    '',
+    'Sign to use your wallet\'s generation and storage limits. This does not send a transaction or cost gas.',
+    '',
+    `Address: ${address}`,
+    `Issued At: ${new Date(issuedAt).toISOString()}`,
+  ].join('\n');
+}
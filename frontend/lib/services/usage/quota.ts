@@ -0,0 +1,213 @@
+/**
+ * Quotas & Rate Limiting
+ * Per-requester request rate (sliding minute, in memory) and daily image and
+ * storage-byte quotas (UTC day, in the usage store). Signed-in wallets get the
+ * USAGE_* limits, anonymous IPs the USAGE_IP_* limits. Storage verification
+ * downloads have their own per-minute budget (USAGE_VERIFY_REQUESTS_PER_MINUTE).
+ */
+
+import { getUsageIdentity } from './identity';
+import { getUsageStore } from './store';
+import { UsageCounts, UsageIdentity, UsageKind, UsageLimits, UsageRecord, UsageResult, UsageSnapshot } from './types';
+
+const MB = 1024 * 1024;
+const RATE_WINDOW_MS = 60 * 1000;
+
+function readLimit(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value >= 0 ? Math.floor(value) : fallback;
+}
+
+const WALLET_LIMITS: UsageLimits = {
+  requestsPerMinute: readLimit('USAGE_REQUESTS_PER_MINUTE', 30),
+  images: readLimit('USAGE_IMAGES_PER_DAY', 100),
+  storageBytes: readLimit('USAGE_STORAGE_BYTES_PER_DAY', 200 * MB),
+};
+
+const IP_LIMITS: UsageLimits = {
+  requestsPerMinute: readLimit('USAGE_IP_REQUESTS_PER_MINUTE', 10),
+  images: readLimit('USAGE_IP_IMAGES_PER_DAY', 20),
+  storageBytes: readLimit('USAGE_IP_STORAGE_BYTES_PER_DAY', 50 * MB),
+};
+
+// A collection page verifies every card it shows - kept apart from the paid routes' limit
+const VERIFY_REQUESTS_PER_MINUTE = readLimit('USAGE_VERIFY_REQUESTS_PER_MINUTE', 120);
+
+const USAGE_LABELS: Record<UsageKind, string> = {
+  images: 'image',
+  storageBytes: 'storage',
+};
+
+function formatAmount(kind: UsageKind, amount: number): string {
+  if (kind !== 'storageBytes') return String(amount);
+  if (amount < 1024) return `${amount} B`;
+  return amount < MB ? `${(amount / 1024).toFixed(1)} KB` : `${(amount / MB).toFixed(1)} MB`;
+}
+
+export function getUsageLimits(identity: UsageIdentity): UsageLimits {
+  return identity.type === 'wallet' ? WALLET_LIMITS : IP_LIMITS;
+}
+
+function getDay(now: number): string {
+  return new Date(now).toISOString().slice(0, 10);
+}
+
+function getNextReset(now: number): number {
+  const date = new Date(now);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1);
+}
+
+async function getRecord(identity: UsageIdentity, day: string): Promise<UsageRecord> {
+  return await getUsageStore().get(identity.key, day)
+    || { key: identity.key, day, used: { images: 0, storageBytes: 0 }, updatedAt: Date.now() };
+}
+
+function toSnapshot(identity: UsageIdentity, record: UsageRecord, now: number): UsageSnapshot {
+  const limits = getUsageLimits(identity);
+
+  return {
+    identity: { type: identity.type, address: identity.address },
+    day: record.day,
+    resetAt: getNextReset(now),
+    limits,
+    used: { ...record.used },
+    remaining: {
+      images: Math.max(0, limits.images - record.used.images),
+      storageBytes: Math.max(0, limits.storageBytes - record.used.storageBytes),
+    },
+  };
+}
+
+// Request timestamps per requester within the last minute (survives Next.js dev module reloads)
+const globalForRate = globalThis as typeof globalThis & { __usageRequests?: Map<string, number[]> };
+
+/**
+ * Count one request against a per-minute limit
+ * @param key - Requester key, prefixed for limits other than the paid routes'
+ * @returns Seconds to wait, or 0 when the request is allowed
+ */
+function takeRateLimit(key: string, requestsPerMinute: number, now: number): number {
+  if (!globalForRate.__usageRequests) {
+    globalForRate.__usageRequests = new Map();
+  }
+  const requests = globalForRate.__usageRequests;
+  const recent = (requests.get(key) || []).filter(time => now - time < RATE_WINDOW_MS);
+
+  if (recent.length >= requestsPerMinute) {
+    requests.set(key, recent);
+    return Math.max(1, Math.ceil((recent[0] + RATE_WINDOW_MS - now) / 1000));
+  }
+
+  recent.push(now);
+  requests.set(key, recent);
+  return 0;
+}
+
+/**
+ * Rate-limit a paid request and reserve its images / storage bytes from today's quota
+ * Refund with refundUsage when the work fails or turns out to be free.
+ */
+export async function consumeUsage(identity: UsageIdentity, amounts: Partial<UsageCounts> = {}): Promise<UsageResult> {
+  const now = Date.now();
+
+  const rateRetryAfter = takeRateLimit(identity.key, getUsageLimits(identity).requestsPerMinute, now);
+  if (rateRetryAfter > 0) {
+    return {
+      allowed: false,
+      error: `Too many requests - limit is ${getUsageLimits(identity).requestsPerMinute} per minute`,
+      retryAfter: rateRetryAfter,
+    };
+  }
+
+  const record = await getRecord(identity, getDay(now));
+  const limits = getUsageLimits(identity);
+
+  for (const kind of Object.keys(USAGE_LABELS) as UsageKind[]) {
+    const amount = amounts[kind] || 0;
+    if (amount > 0 && record.used[kind] + amount > limits[kind]) {
+      const snapshot = toSnapshot(identity, record, now);
+      return {
+        allowed: false,
+        error: `Daily ${USAGE_LABELS[kind]} quota exceeded: ${formatAmount(kind, record.used[kind])} of ` +
+          `${formatAmount(kind, limits[kind])} used, this request needs ${formatAmount(kind, amount)}` +
+          (identity.type === 'ip' ? '. Sign in with your wallet for higher limits.' : ''),
+        retryAfter: Math.ceil((snapshot.resetAt - now) / 1000),
+        snapshot,
+      };
+    }
+  }
+
+  for (const kind of Object.keys(USAGE_LABELS) as UsageKind[]) {
+    record.used[kind] += amounts[kind] || 0;
+  }
+  record.updatedAt = now;
+  await getUsageStore().save(record);
+
+  return { allowed: true, snapshot: toSnapshot(identity, record, now) };
+}
+
+/**
+ * Give back usage reserved by consumeUsage (same UTC day only)
+ */
+export async function refundUsage(identity: UsageIdentity, amounts: Partial<UsageCounts>): Promise<void> {
+  const now = Date.now();
+  const record = await getUsageStore().get(identity.key, getDay(now));
+  if (!record) return;
+
+  for (const kind of Object.keys(USAGE_LABELS) as UsageKind[]) {
+    record.used[kind] = Math.max(0, record.used[kind] - (amounts[kind] || 0));
+  }
+  record.updatedAt = now;
+  await getUsageStore().save(record);
+}
+
+/**
+ * Today's usage and limits of a requester
+ */
+export async function getUsageSnapshot(identity: UsageIdentity): Promise<UsageSnapshot> {
+  const now = Date.now();
+  return toSnapshot(identity, await getRecord(identity, getDay(now)), now);
+}
+
+/**
+ * Resolve the requester from request headers and consume usage in one step
+ * @returns Identity to refund against, or an error with status (401, or 429 with retryAfter)
+ */
+export async function meterUsage(
+  headers: Headers,
+  amounts: Partial<UsageCounts> = {}
+): Promise<{ identity?: UsageIdentity; error?: string; status?: number; retryAfter?: number }> {
+  const { identity, error, status } = getUsageIdentity(headers);
+  if (!identity) return { error, status };
+
+  const result = await consumeUsage(identity, amounts);
+  if (!result.allowed) {
+    console.warn(`[Usage] ${identity.key} limited: ${result.error}`);
+    return { error: result.error, status: 429, retryAfter: result.retryAfter };
+  }
+
+  return { identity };
+}
+
+/**
+ * Rate-limit a storage verification (free, but downloads the file)
+ * @returns Error with status (401, or 429 with retryAfter) when limited
+ */
+export function meterVerification(
+  headers: Headers
+): { identity?: UsageIdentity; error?: string; status?: number; retryAfter?: number } {
+  const { identity, error, status } = getUsageIdentity(headers);
+  if (!identity) return { error, status };
+
+  const retryAfter = takeRateLimit(`verify:${identity.key}`, VERIFY_REQUESTS_PER_MINUTE, Date.now());
+  if (retryAfter > 0) {
+    console.warn(`[Usage] ${identity.key} verification limited`);
+    return {
+      error: `Too many verification requests - limit is ${VERIFY_REQUESTS_PER_MINUTE} per minute`,
+      status: 429,
+      retryAfter,
+    };
+  }
+
+  return { identity };
+}
@@ -0,0 +1,73 @@
+/**
+ * Usage Store
+ * Daily usage counters per requester, persisted so quotas survive a restart.
+ * Selected with USAGE_STORE=memory|fs (default: fs).
+ */
+
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { UsageRecord } from './types';
+
+const USAGE_STORE = process.env.USAGE_STORE || 'fs';
+const USAGE_STORE_DIR = process.env.USAGE_STORE_DIR || join(tmpdir(), 'sketchnft-usage');
+
+export interface UsageStore {
+  get(key: string, day: string): Promise<UsageRecord | null>;
+  save(record: UsageRecord): Promise<void>;
+}
+
+const recordId = (key: string, day: string) => `${day}_${key.replace(/[^a-zA-Z0-9.-]/g, '_')}`;
+
+class MemoryUsageStore implements UsageStore {
+  protected records = new Map<string, UsageRecord>();
+
+  async get(key: string, day: string): Promise<UsageRecord | null> {
+    return this.records.get(recordId(key, day)) || null;
+  }
+
+  async save(record: UsageRecord): Promise<void> {
+    this.records.set(recordId(record.key, record.day), record);
+  }
+}
+
+class FileUsageStore extends MemoryUsageStore {
+  constructor(private dir: string) {
+    super();
+  }
+
+  private pathFor(key: string, day: string): string {
+    return join(this.dir, `${recordId(key, day)}.json`);
+  }
+
+  async get(key: string, day: string): Promise<UsageRecord | null> {
+    const cached = await super.get(key, day);
+    if (cached) return cached;
+
+    try {
+      const record: UsageRecord = JSON.parse(await readFile(this.pathFor(key, day), 'utf-8'));
+      this.records.set(recordId(key, day), record);
+      return record;
+    } catch {
+      return null;
+    }
+  }
+
+  async save(record: UsageRecord): Promise<void> {
+    await super.save(record);
+    await mkdir(this.dir, { recursive: true });
+    await writeFile(this.pathFor(record.key, record.day), JSON.stringify(record));
+  }
+}
+
+// Keep one store per server process (survives Next.js dev module reloads)
+const globalForUsage = globalThis as typeof globalThis & { __usageStore?: UsageStore };
+
+export function getUsageStore(): UsageStore {
+  if (!globalForUsage.__usageStore) {
+    globalForUsage.__usageStore = USAGE_STORE === 'memory'
+      ? new MemoryUsageStore()
+      : new FileUsageStore(USAGE_STORE_DIR);
+  }
+  return globalForUsage.__usageStore;
+}
@@ -0,0 +1,43 @@
+/**
+ * Usage & Quota Types
+ * Paid API routes are metered per requester: a signed-in wallet (or one proven
+ * with a signed usage message), or the client IP for anonymous requests.
+ */
+
+export type UsageKind = 'images' | 'storageBytes';
+
+export type UsageCounts = Record<UsageKind, number>;
+
+export interface UsageIdentity {
+  key: string; // 'wallet:0x...' or 'ip:...' - store and rate-limit key
+  type: 'wallet' | 'ip';
+  address?: string;
+}
+
+// Daily counters of one requester (UTC day)
+export interface UsageRecord {
+  key: string;
+  day: string; // YYYY-MM-DD
+  used: UsageCounts;
+  updatedAt: number;
+}
+
+export interface UsageLimits extends UsageCounts {
+  requestsPerMinute: number;
+}
+
+export interface UsageSnapshot {
+  identity: Omit<UsageIdentity, 'key'>;
+  day: string;
+  resetAt: number; // Next UTC midnight (ms)
+  limits: UsageLimits;
+  used: UsageCounts;
+  remaining: UsageCounts;
+}
+
+export interface UsageResult {
+  allowed: boolean;
+  error?: string;
+  retryAfter?: number; // Seconds until the request can succeed (429 Retry-After)
+  snapshot?: UsageSnapshot;
+}
@@ -0,0 +1,22 @@
+/**
+ * Usage Service - Client-side quotas
+ * Reads today's usage and limits from /api/usage. Requests are metered by the
+ * signed-in wallet (SIWE session cookie) or, when signed out, by IP.
+ */
+
+import { UsageSnapshot } from './usage/types';
+
+/**
+ * Today's usage and limits for this browser's wallet or IP
+ * @throws When the usage could not be loaded
+ */
+export async function getUsage(): Promise<UsageSnapshot> {
+  const response = await fetch('/api/usage', { cache: 'no-store' });
+  const result = await response.json();
+
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || 'Failed to load usage');
+  }
+
+  return result.usage;
+}
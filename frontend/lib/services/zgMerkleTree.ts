@@ -0,0 +1,167 @@
+/**
+ * 0G File Merkle Tree
+ * Browser-side port of the 0G SDK file layout (`ZgFile.merkleTree()` / `createSubmission()`):
+ * data is split into 256-byte sectors, zero-padded, hashed per 256 KB segment,
+ * and the segment roots are combined into the file root.
+ * Pure functions - produces the same roots and submission nodes as the SDK.
+ */
+
+import { ethers } from 'ethers';
+
+// Sector (chunk) and segment sizes used by 0G storage nodes
+export const ZG_SECTOR_SIZE = 256;
+export const ZG_SEGMENT_MAX_SECTORS = 1024;
+export const ZG_SEGMENT_SIZE = ZG_SECTOR_SIZE * ZG_SEGMENT_MAX_SECTORS;
+
+const EMPTY_ROOT = ethers.ZeroHash;
+
+export interface ZgSubmissionNode {
+  root: string;
+  height: number;
+}
+
+// Flow contract submission: `length` is the unpadded data size
+export interface ZgSubmission {
+  length: number;
+  tags: string;
+  nodes: ZgSubmissionNode[];
+}
+
+function numSplits(total: number, unit: number): number {
+  return Math.floor((total - 1) / unit) + 1;
+}
+
+function nextPow2(value: number): number {
+  let pow = 1;
+  while (pow < value) pow *= 2;
+  return pow;
+}
+
+/**
+ * Padded sector count and the power of two it is aligned under (SDK `computePaddedSize`)
+ */
+function computePaddedSectors(sectors: number): [padded: number, nextPow: number] {
+  const nextPow = nextPow2(sectors);
+  if (nextPow === sectors) {
+    return [sectors, nextPow];
+  }
+
+  const minSectors = nextPow >= 16 ? Math.floor(nextPow / 16) : 1;
+  return [numSplits(sectors, minSectors) * minSectors, nextPow];
+}
+
+/**
+ * Root of a binary tree over the given leaves - an odd node is carried up unchanged
+ */
+function buildRoot(leaves: string[]): string {
+  if (leaves.length === 0) return EMPTY_ROOT;
+
+  let level = leaves;
+  while (level.length > 1) {
+    const next: string[] = [];
+    for (let i = 0; i + 1 < level.length; i += 2) {
+      next.push(ethers.keccak256(ethers.concat([level[i], level[i + 1]])));
+    }
+    if (level.length % 2 === 1) {
+      next.push(level[level.length - 1]);
+    }
+    level = next;
+  }
+
+  return level[0];
+}
+
+/**
+ * Root of one segment - leaves are the keccak256 of each sector
+ */
+function segmentRoot(segment: Uint8Array): string {
+  const leaves: string[] = [];
+  for (let offset = 0; offset < segment.length; offset += ZG_SECTOR_SIZE) {
+    leaves.push(ethers.keccak256(segment.subarray(offset, offset + ZG_SECTOR_SIZE)));
+  }
+  return buildRoot(leaves);
+}
+
+/**
+ * Sector layout of a file as the SDK sees it
+ */
+function getLayout(data: Uint8Array) {
+  if (data.length === 0) {
+    throw new Error('Cannot compute a 0G Merkle tree for empty data');
+  }
+
+  const sectors = numSplits(data.length, ZG_SECTOR_SIZE);
+  const [paddedSectors, nextPow] = computePaddedSectors(sectors);
+  return { paddedSectors, nextPow, paddedSize: paddedSectors * ZG_SECTOR_SIZE };
+}
+
+/**
+ * Segment roots over [start, start + length) of the zero-padded file
+ */
+function segmentRoots(data: Uint8Array, paddedSize: number, start: number, length: number, segmentSize: number): string[] {
+  const roots: string[] = [];
+  const end = Math.min(start + length, paddedSize);
+
+  for (let offset = start; offset < end; offset += segmentSize) {
+    const segment = new Uint8Array(Math.min(segmentSize, paddedSize - offset));
+    if (offset < data.length) {
+      segment.set(data.subarray(offset, Math.min(offset + segment.length, data.length)));
+    }
+    roots.push(segmentRoot(segment));
+  }
+
+  return roots;
+}
+
+/**
+ * 0G Merkle root of a file - equal to `(await ZgFile.merkleTree()).rootHash()`
+ */
+export function computeMerkleRoot(data: Uint8Array): string {
+  const { paddedSize } = getLayout(data);
+  return buildRoot(segmentRoots(data, paddedSize, 0, paddedSize, ZG_SEGMENT_SIZE));
+}
+
+/**
+ * Flow contract submission for a file - equal to `ZgFile.createSubmission(tags)`
+ * The padded file is split into power-of-two subtrees, largest first.
+ */
+export function createSubmission(data: Uint8Array, tags = '0x'): ZgSubmission {
+  const { paddedSectors, nextPow, paddedSize } = getLayout(data);
+  const nodes: ZgSubmissionNode[] = [];
+
+  let remaining = paddedSectors;
+  let offset = 0;
+  for (let nodeSectors = nextPow; remaining > 0; nodeSectors /= 2) {
+    if (remaining < nodeSectors) continue;
+
+    const segmentSize = Math.min(nodeSectors, ZG_SEGMENT_MAX_SECTORS) * ZG_SECTOR_SIZE;
+    const length = nodeSectors * ZG_SECTOR_SIZE;
+    nodes.push({
+      root: buildRoot(segmentRoots(data, paddedSize, offset, length, segmentSize)),
+      height: Math.log2(nodeSectors),
+    });
+
+    offset += length;
+    remaining -= nodeSectors;
+  }
+
+  return { length: data.length, tags, nodes };
+}
+
+/**
+ * Number of sectors a submission pays for (sum of its node sizes)
+ */
+export function getSubmissionSectors(submission: ZgSubmission): number {
+  return submission.nodes.reduce((sum, node) => sum + 2 ** node.height, 0);
+}
+
+/**
+ * Sectors the Flow contract charges for a file of this size - equal to
+ * `getSubmissionSectors(createSubmission(data))` without needing the data
+ */
+export function getSectorsForSize(size: number): number {
+  if (size <= 0) {
+    throw new Error('Cannot price an empty file');
+  }
+  return computePaddedSectors(numSplits(size, ZG_SECTOR_SIZE))[0];
+}
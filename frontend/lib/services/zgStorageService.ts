@@ -12,25 +12,58 @@
  */
 
 import { ethers } from 'ethers';
-
-// 0G Storage Configuration
-const ZG_INDEXER_RPC = 'https://indexer-storage-testnet-turbo.0g.ai';
+import { computeMerkleRoot, createSubmission, getSubmissionSectors } from './zgMerkleTree';
+import { getZgGatewayUrl, STORAGE_BACKEND } from './storage/config';
+import { getPricePerSector } from './storage/quote';
+import { StorageQuote, UploadLedgerEntry } from './storage/types';
+import { markMockStored } from './storageService';
 
 // 0G Flow Contract - handles data flow submissions
-const ZG_FLOW_CONTRACT = '0xbD2C3F0E65eDF5582141C35969d66e34629cC768';
+export const ZG_FLOW_CONTRACT = '0xbD2C3F0E65eDF5582141C35969d66e34629cC768';
 
-// Flow Contract ABI (minimal for submit)
+// Flow Contract ABI (minimal for submit) - the submission is wrapped with its submitter
 const FLOW_ABI = [
-  'function submit((uint256 length, uint256 tags, (bytes32 root, uint256 height) nodes) submission) payable returns (uint256 index, bytes32 root, uint256 startEpoch)',
-  'function makeSubmission(bytes data) view returns ((uint256 length, uint256 tags, (bytes32 root, uint256 height) nodes))',
-  'event Submit(address indexed sender, uint256 indexed index, bytes32 indexed root, uint256 length, uint256 startEpoch)',
+  'function submit(((uint256 length, bytes tags, (bytes32 root, uint256 height)[] nodes) data, address submitter) submission) payable returns (uint256, bytes32, uint256, uint256)',
+  'function batchSubmit(((uint256 length, bytes tags, (bytes32 root, uint256 height)[] nodes) data, address submitter)[] submissions) payable returns (uint256[], bytes32[], uint256[], uint256[])',
 ];
 
+/**
+ * Who pays for the Flow submission, chosen per deployment:
+ * - 'server': the API's storage wallets (ZG_STORAGE_PRIVATE_KEYS) submit and upload (default)
+ * - 'user': the connected wallet signs and pays the submission, the API only uploads segments
+ */
+export type ZGStorageMode = 'server' | 'user';
+
+export const ZG_STORAGE_MODE: ZGStorageMode =
+  process.env.NEXT_PUBLIC_ZG_STORAGE_MODE === 'user' ? 'user' : 'server';
+
 export interface ZGUploadResult {
   success: boolean;
   root: string;
   txHash?: string;
   error?: string;
+  // Server-reported root matched the one computed in the browser
+  rootVerified?: boolean;
+  // Same content was already submitted - no new storage fee was paid
+  reused?: boolean;
+  // 'mock': stored by the server's local / in-memory backend, not on 0G
+  mode?: 'mock';
+}
+
+// One file of a batch upload, identified by a caller-chosen id
+export interface ZGBatchFile {
+  id: string;
+  data: string | object;
+  type: 'image' | 'json';
+}
+
+// Files and NFTs to price with POST /api/zg-storage/quote (sizes in bytes)
+export interface ZGQuoteRequest {
+  files?: { id?: string; size: number }[];
+  nfts?: { id: string; imageSize: number; metadataSize: number; style?: string; prompt?: string }[];
+  sketchSize?: number;
+  // Minting wallet for the gas estimate
+  address?: string;
 }
 
 export interface ZGUploadProgress {
@@ -64,22 +97,47 @@ function dataToBytes(data: string | object, type: 'image' | 'json'): Uint8Array
 }
 
 /**
- * Calculate Merkle root for data (simplified)
- * In production, use proper Merkle tree implementation
+ * Size in bytes an upload of this data will store (and be charged for)
+ */
+export function getUploadSize(data: string | object, type: 'image' | 'json'): number {
+  return dataToBytes(data, type).length;
+}
+
+/**
+ * Quote storage fees and mint gas before uploading anything
+ * @throws When the quote could not be computed
  */
-async function calculateMerkleRoot(data: Uint8Array): Promise<string> {
-  // Use SHA-256 as simplified root calculation
-  // Create a new ArrayBuffer copy to avoid SharedArrayBuffer issues
-  const buffer = new ArrayBuffer(data.length);
-  new Uint8Array(buffer).set(data);
-  const hashBuffer = await crypto.subtle.digest('SHA-256', buffer);
-  const hashArray = Array.from(new Uint8Array(hashBuffer));
-  return '0x' + hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
+export async function getStorageQuote(request: ZGQuoteRequest): Promise<StorageQuote> {
+  const response = await fetch('/api/zg-storage/quote', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request),
+  });
+
+  const result = await response.json();
+
+  if (!response.ok || !result.success) {
+    throw new Error(result.details || result.error || 'Quote failed');
+  }
+
+  return result;
+}
+
+/**
+ * Server's upload ledger entry for a root, or null if it was never submitted
+ */
+async function getUploadEntry(root: string): Promise<UploadLedgerEntry | null> {
+  const response = await fetch(`/api/zg-storage/uploads/${root}`);
+  if (!response.ok) return null;
+
+  const result = await response.json();
+  return result.upload || null;
 }
 
 /**
  * Upload data to 0G Storage with user signature
- * This is the FIRST signature - user pays for storage
+ * This is the FIRST signature - user pays for storage, then the server
+ * pushes the data segments to storage nodes for the submitted root
  *
  * @param signer - User's ethers signer from wallet
  * @param data - Data to upload (base64 image or JSON object)
@@ -104,48 +162,63 @@ export async function uploadToZGStorage(
     // Step 2: Calculate data root
     onProgress?.({ step: 'preparing', message: 'Calculating data root...', progress: 25 });
 
-    const root = await calculateMerkleRoot(bytes);
+    const submission = createSubmission(bytes);
+    const root = computeMerkleRoot(bytes);
     console.log(`[0G Storage] Data root: ${root}`);
 
-    // Step 3: Request user signature for storage commitment
-    onProgress?.({ step: 'signing', message: 'Please sign the storage transaction...', progress: 50 });
-
-    // Get the Flow contract
-    const flowContract = new ethers.Contract(ZG_FLOW_CONTRACT, FLOW_ABI, signer);
-
-    // Prepare submission data
-    // For 0G Flow, we need to create a proper submission structure
-    // Simplified version - in production use proper segment/merkle encoding
-    const submission = {
-      length: dataSize,
-      tags: 0, // No special tags
-      nodes: {
-        root: root,
-        height: 1
-      }
-    };
+    // Content already submitted: skip the fee, the server resumes any missing segments
+    const previous = await getUploadEntry(root);
+    let txHash = previous?.txHash;
 
-    console.log('[0G Storage] Submitting to Flow contract...');
+    if (previous) {
+      console.log(`[0G Storage] Already submitted (${previous.status}), skipping payment`);
+    } else {
+      // Get the Flow contract
+      const flowContract = new ethers.Contract(ZG_FLOW_CONTRACT, FLOW_ABI, signer);
 
-    // Calculate required fee (price per byte * size)
-    // 0G testnet typically requires small fee
-    const pricePerByte = ethers.parseUnits('1', 'gwei'); // 1 gwei per byte
-    const totalFee = pricePerByte * BigInt(dataSize);
+      // Fee is priced per 256-byte sector covered by the submission nodes
+      const pricePerSector = await getPricePerSector(signer, ZG_FLOW_CONTRACT);
+      const sectors = getSubmissionSectors(submission);
+      const fee = pricePerSector * BigInt(sectors);
 
-    // Submit to Flow contract
-    const tx = await flowContract.submit(submission, {
-      value: totalFee,
-      gasLimit: 500000
-    });
+      console.log(`[0G Storage] Fee: ${ethers.formatEther(fee)} 0G (${sectors} sectors)`);
+
+      // Step 3: Request user signature for storage commitment
+      onProgress?.({ step: 'signing', message: 'Please sign the storage transaction...', progress: 40 });
+
+      console.log('[0G Storage] Submitting to Flow contract...');
+
+      const tx = await flowContract.submit(
+        { data: submission, submitter: await signer.getAddress() },
+        { value: fee }
+      );
+
+      onProgress?.({ step: 'confirming', message: 'Waiting for confirmation...', progress: 60 });
+
+      console.log(`[0G Storage] Transaction sent: ${tx.hash}`);
 
-    onProgress?.({ step: 'confirming', message: 'Waiting for confirmation...', progress: 75 });
+      // Wait for confirmation
+      await tx.wait();
 
-    console.log(`[0G Storage] Transaction sent: ${tx.hash}`);
+      console.log(`[0G Storage] Transaction confirmed!`);
+      txHash = tx.hash;
+    }
+
+    // Step 4: Server uploads the data segments for the submitted root
+    onProgress?.({ step: 'uploading', message: 'Uploading data to storage nodes...', progress: 80 });
+
+    const response = await fetch('/api/zg-storage', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ data, type, txHash: previous ? undefined : txHash }),
+    });
+
+    const result = await response.json();
 
-    // Wait for confirmation
-    const receipt = await tx.wait();
+    if (!response.ok || !result.success) {
+      throw new Error(result.error || 'Segment upload failed');
+    }
 
-    console.log(`[0G Storage] Transaction confirmed!`);
     console.log(`[0G Storage] Root: ${root}`);
 
     onProgress?.({ step: 'complete', message: 'Upload complete!', progress: 100 });
@@ -153,7 +226,9 @@ export async function uploadToZGStorage(
     return {
       success: true,
       root: root,
-      txHash: tx.hash
+      txHash: txHash,
+      rootVerified: result.root?.toLowerCase() === root,
+      reused: !!previous
     };
 
   } catch (error: unknown) {
@@ -183,19 +258,26 @@ export async function uploadToZGStorage(
 
 /**
  * Upload to real 0G Storage via API
- * Server handles the SDK upload, data is stored on 0G network
+ * Server handles the SDK upload, data is stored on 0G network.
+ * In 'user' storage mode the signer pays for the submission instead (see uploadToZGStorage).
  */
 export async function uploadWithCommitment(
-  _signer: ethers.Signer, // Kept for API compatibility, not used (server pays for storage)
+  signer: ethers.Signer,
   data: string | object,
   type: 'image' | 'json',
   onProgress?: (progress: ZGUploadProgress) => void
 ): Promise<ZGUploadResult> {
+  // Local and in-memory backends have no Flow submission to pay for
+  if (ZG_STORAGE_MODE === 'user' && STORAGE_BACKEND === 'zg') {
+    return uploadToZGStorage(signer, data, type, onProgress);
+  }
+
   try {
     onProgress?.({ step: 'preparing', message: 'Preparing upload...' });
 
-    // Calculate local hash for display
+    // Calculate the root locally so the server's answer can be checked
     const bytes = dataToBytes(data, type);
+    const localRoot = computeMerkleRoot(bytes);
     console.log(`[0G Storage] Preparing ${type}, size: ${(bytes.length / 1024).toFixed(2)} KB`);
 
     onProgress?.({ step: 'uploading', message: 'Uploading to 0G Storage...', progress: 30 });
@@ -215,6 +297,16 @@ export async function uploadWithCommitment(
 
     onProgress?.({ step: 'confirming', message: 'Verifying on chain...', progress: 80 });
 
+    const rootVerified = result.root?.toLowerCase() === localRoot;
+    const mode = result.backend && result.backend !== 'zg' ? 'mock' : undefined;
+    if (mode) {
+      markMockStored(result.root);
+      console.warn(`[0G Storage] ⚠️ ${result.backend} backend: ${result.root} is not on 0G`);
+    }
+    if (!rootVerified) {
+      console.warn(`[0G Storage] ⚠️ Root mismatch - server: ${result.root}, local: ${localRoot}`);
+    }
+
     console.log(`[0G Storage] ✅ Uploaded successfully!`);
     console.log(`[0G Storage] Root: ${result.root}`);
     console.log(`[0G Storage] TX: ${result.txHash}`);
@@ -225,7 +317,10 @@ export async function uploadWithCommitment(
     return {
       success: true,
       root: result.root,
-      txHash: result.txHash
+      txHash: result.txHash,
+      rootVerified,
+      reused: result.reused,
+      mode
     };
 
   } catch (error: unknown) {
@@ -238,10 +333,110 @@ export async function uploadWithCommitment(
   }
 }
 
+/**
+ * Upload many files in one request (POST /api/zg-storage/batch)
+ * The server batches the Flow submissions; in 'user' storage mode the signer pays
+ * for every new file with a single batchSubmit transaction first.
+ * @returns Result per file id - a failed batch marks every file as failed
+ */
+export async function uploadBatchWithCommitment(
+  signer: ethers.Signer,
+  files: ZGBatchFile[],
+  onProgress?: (progress: ZGUploadProgress) => void
+): Promise<Record<string, ZGUploadResult>> {
+  try {
+    onProgress?.({ step: 'preparing', message: `Preparing ${files.length} files...` });
+
+    // Calculate the roots locally so the server's answers can be checked
+    const localRoots = files.map(file => computeMerkleRoot(dataToBytes(file.data, file.type)));
+    let txHash: string | undefined;
+
+    // Local and in-memory backends have no Flow submission to pay for
+    if (ZG_STORAGE_MODE === 'user' && STORAGE_BACKEND === 'zg') {
+      // Content already submitted is resumed by the server without a new fee
+      const entries = await Promise.all(localRoots.map(root => getUploadEntry(root)));
+      const unpaid = new Map<string, Uint8Array>();
+      files.forEach((file, i) => {
+        if (!entries[i]) unpaid.set(localRoots[i], dataToBytes(file.data, file.type));
+      });
+
+      if (unpaid.size > 0) {
+        const submissions = Array.from(unpaid.values()).map(bytes => createSubmission(bytes));
+        const flowContract = new ethers.Contract(ZG_FLOW_CONTRACT, FLOW_ABI, signer);
+        const pricePerSector = await getPricePerSector(signer, ZG_FLOW_CONTRACT);
+        const sectors = submissions.reduce((sum, submission) => sum + getSubmissionSectors(submission), 0);
+        const fee = pricePerSector * BigInt(sectors);
+
+        console.log(`[0G Storage] Batch fee: ${ethers.formatEther(fee)} 0G (${submissions.length} files, ${sectors} sectors)`);
+
+        onProgress?.({ step: 'signing', message: `Please sign the storage transaction for ${submissions.length} files...`, progress: 20 });
+
+        const submitter = await signer.getAddress();
+        const tx = await flowContract.batchSubmit(
+          submissions.map(data => ({ data, submitter })),
+          { value: fee }
+        );
+
+        onProgress?.({ step: 'confirming', message: 'Waiting for confirmation...', progress: 40 });
+        await tx.wait();
+        txHash = tx.hash;
+      }
+    }
+
+    onProgress?.({ step: 'uploading', message: `Uploading ${files.length} files to 0G Storage...`, progress: 60 });
+
+    const response = await fetch('/api/zg-storage/batch', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ files, txHash }),
+    });
+
+    const result = await response.json();
+
+    if (!response.ok || !result.results) {
+      throw new Error(result.error || 'Batch upload failed');
+    }
+
+    const mode = result.backend && result.backend !== 'zg' ? 'mock' : undefined;
+    if (mode) {
+      console.warn(`[0G Storage] ⚠️ ${result.backend} backend: batch files are not on 0G`);
+    }
+
+    const uploads: Record<string, ZGUploadResult> = {};
+    files.forEach((file, i) => {
+      const fileResult = result.results[file.id];
+      if (fileResult?.success && mode) markMockStored(fileResult.root);
+      uploads[file.id] = fileResult?.success
+        ? {
+          success: true,
+          root: fileResult.root,
+          txHash: fileResult.txHash,
+          rootVerified: fileResult.root.toLowerCase() === localRoots[i],
+          reused: fileResult.reused,
+          mode,
+        }
+        : { success: false, root: '', error: fileResult?.error || 'Upload failed' };
+    });
+
+    console.log(`[0G Storage] Batch stored ${result.uploaded}/${result.total} files`);
+    onProgress?.({ step: 'complete', message: `Stored ${result.uploaded}/${result.total} files on 0G!`, progress: 100 });
+
+    return uploads;
+
+  } catch (error: unknown) {
+    console.error('[0G Storage] Batch upload failed:', error);
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    onProgress?.({ step: 'error', message: errorMessage });
+
+    return Object.fromEntries(files.map(file => [file.id, { success: false, root: '', error: errorMessage }]));
+  }
+}
+
 /**
  * Get storage URL for a root hash
  * Uses 0G indexer query parameter format
  */
 export function getZGStorageUrl(root: string): string {
-  return `${ZG_INDEXER_RPC}/file?root=${root}`;
+  return getZgGatewayUrl(root);
 }
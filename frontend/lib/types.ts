@@ -30,9 +30,56 @@ export enum ImageResolution {
   RES_4K = '4K'
 }
 
+// Nominal edge length in pixels for each resolution tier (square output, same area for other ratios)
+export const RESOLUTION_PIXELS: Record<ImageResolution, number> = {
+  [ImageResolution.RES_1K]: 1024,
+  [ImageResolution.RES_2K]: 2048,
+  [ImageResolution.RES_4K]: 4096,
+};
+
+export enum AspectRatio {
+  SQUARE = '1:1',
+  PORTRAIT = '2:3',
+  CARD = '3:4',
+  LANDSCAPE = '3:2',
+  WIDE = '16:9',
+  BANNER = '21:9'
+}
+
+// Display labels for the canvas formats offered in the UI
+export const ASPECT_RATIO_LABELS: Record<AspectRatio, string> = {
+  [AspectRatio.SQUARE]: 'Square (PFP)',
+  [AspectRatio.PORTRAIT]: 'Portrait',
+  [AspectRatio.CARD]: 'Card',
+  [AspectRatio.LANDSCAPE]: 'Landscape',
+  [AspectRatio.WIDE]: 'Wide',
+  [AspectRatio.BANNER]: 'Banner',
+};
+
+// Trait system - a collection-wide schema of weighted values per layer
+export interface TraitValue {
+  value: string;
+  weight: number; // Relative weight within the layer
+}
+
+export interface TraitLayer {
+  name: string; // Becomes the metadata trait_type
+  values: TraitValue[];
+}
+
+export type TraitSchema = TraitLayer[];
+
+// Trait picked for one item, in metadata attribute form
+export interface ItemTrait {
+  trait_type: string;
+  value: string;
+}
+
 export interface GenerationConfig {
   prompt: string;
   style: string;
   count: number;
   resolution: ImageResolution;
+  aspectRatio: AspectRatio;
+  traits?: TraitSchema; // Omitted: variations are left to the model
 }
\ No newline at end of file
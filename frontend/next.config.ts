@@ -8,6 +8,18 @@ const nextConfig: NextConfig = {
         hostname: 'indexer-storage-testnet-turbo.0g.ai',
         pathname: '/file/**',
       },
+      {
+        // Local / in-memory storage backends (NEXT_PUBLIC_STORAGE_BACKEND)
+        protocol: 'http',
+        hostname: 'localhost',
+        pathname: '/api/storage/**',
+      },
+      {
+        // Dev-mode mock uploads (/api/upload-to-0g)
+        protocol: 'http',
+        hostname: 'localhost',
+        pathname: '/api/upload-to-0g/**',
+      },
     ],
   },
   webpack: (config) => {
@@ -0,0 +1,106 @@
+/**
+ * 0G Merkle Tree Fixture Check
+ * Compares lib/services/zgMerkleTree.ts with roots and submission nodes recorded from
+ * the 0G SDK (`MemData.merkleTree()` / `createSubmission()`) in fixtures/zg-merkle.json.
+ * Runs offline. Fixture bytes are generated from each entry's size, so large files
+ * need no binary fixtures. The SDK builds no tree for empty data (root null) - the
+ * port must refuse it instead.
+ *
+ *   npm run check:merkle            # port vs fixtures, and fixtures vs the installed SDK
+ *   npm run check:merkle -- --update  # re-record the fixtures from the installed SDK
+ */
+
+import { readFile, writeFile } from 'fs/promises';
+import { fileURLToPath } from 'url';
+import { MemData } from '@0glabs/0g-ts-sdk';
+// jiti ships with eslint (a dev dependency) and loads the TypeScript module as-is
+import { createJiti } from 'jiti';
+
+const FIXTURES_PATH = fileURLToPath(new URL('./fixtures/zg-merkle.json', import.meta.url));
+
+// Empty, single byte, sector boundary, one segment, segment + 1 byte, several segments
+const FIXTURE_SIZES = [0, 1, 255, 256, 257, 4096, 262144, 262145, 524288, 800001];
+
+/**
+ * Deterministic fixture content (32-bit LCG, high byte)
+ */
+function fixtureBytes(size) {
+  const bytes = new Uint8Array(size);
+  let state = size >>> 0;
+  for (let i = 0; i < size; i++) {
+    state = (Math.imul(state, 1664525) + 1013904223) >>> 0;
+    bytes[i] = state >>> 24;
+  }
+  return bytes;
+}
+
+function normalizeSubmission(submission) {
+  return {
+    length: Number(submission.length),
+    nodes: submission.nodes.map(node => ({ root: node.root.toLowerCase(), height: Number(node.height) })),
+  };
+}
+
+async function recordFromSdk(size) {
+  const file = new MemData(fixtureBytes(size));
+  const [tree, treeErr] = await file.merkleTree();
+  if (treeErr) throw new Error(`SDK merkleTree failed for ${size} bytes: ${treeErr}`);
+  const [submission, submissionErr] = await file.createSubmission('0x');
+  if (submissionErr || !submission) throw new Error(`SDK createSubmission failed for ${size} bytes: ${submissionErr}`);
+
+  return { size, root: tree?.rootHash()?.toLowerCase() ?? null, submission: normalizeSubmission(submission) };
+}
+
+function throws(operation) {
+  try {
+    operation();
+    return false;
+  } catch {
+    return true;
+  }
+}
+
+async function update() {
+  const files = [];
+  for (const size of FIXTURE_SIZES) {
+    files.push(await recordFromSdk(size));
+  }
+  await writeFile(FIXTURES_PATH, `${JSON.stringify({ files }, null, 2)}\n`);
+  console.log(`Recorded ${files.length} fixtures from the 0G SDK`);
+}
+
+async function check() {
+  const jiti = createJiti(import.meta.url);
+  const { computeMerkleRoot, createSubmission } = await jiti.import('../lib/services/zgMerkleTree.ts');
+  const { files } = JSON.parse(await readFile(FIXTURES_PATH, 'utf-8'));
+  let failures = 0;
+
+  const expectEqual = (label, actual, expected) => {
+    if (JSON.stringify(actual) === JSON.stringify(expected)) return;
+    failures++;
+    console.error(`✗ ${label}\n    expected ${JSON.stringify(expected)}\n    actual   ${JSON.stringify(actual)}`);
+  };
+
+  for (const fixture of files) {
+    const data = fixtureBytes(fixture.size);
+    const label = `${fixture.size} bytes`;
+
+    if (fixture.root === null) {
+      expectEqual(`${label}: computeMerkleRoot refuses`, throws(() => computeMerkleRoot(data)), true);
+      expectEqual(`${label}: createSubmission refuses`, throws(() => createSubmission(data)), true);
+    } else {
+      expectEqual(`${label}: computeMerkleRoot`, computeMerkleRoot(data), fixture.root);
+      expectEqual(`${label}: createSubmission`, normalizeSubmission(createSubmission(data)), fixture.submission);
+    }
+    // Guards the fixtures themselves against SDK upgrades
+    expectEqual(`${label}: fixture vs installed SDK`, await recordFromSdk(fixture.size), fixture);
+  }
+
+  if (failures > 0) {
+    console.error(`${failures} check(s) failed`);
+    process.exit(1);
+  }
+  console.log(`✓ ${files.length} fixtures match the 0G SDK`);
+}
+
+await (process.argv.includes('--update') ? update() : check());